@@ -0,0 +1,343 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import {
+  type Board,
+  SIZE,
+  createBoard,
+  findFive,
+  isBoardFull
+} from '@/lib/gomoku';
+import { SearchClient } from '@/lib/search-client';
+
+// Barron AI thinks in a Web Worker so the board stays responsive
+const searchClient = new SearchClient();
+
+interface SavedStats {
+  playerScore: number;
+  aiScore: number;
+  draws: number;
+  lastStarter: 'player' | 'ai';
+}
+
+// The score and last starter saved by the previous visit
+const readStats = (): SavedStats => {
+  const empty: SavedStats = { playerScore: 0, aiScore: 0, draws: 0, lastStarter: 'ai' };
+  const savedStats = localStorage.getItem('gomoku-stats');
+  if (!savedStats) return empty;
+
+  try {
+    const stats = JSON.parse(savedStats);
+    return {
+      playerScore: stats.playerScore || 0,
+      aiScore: stats.aiScore || 0,
+      draws: stats.draws || 0,
+      lastStarter: stats.lastStarter || 'ai'
+    };
+  } catch {
+    console.error('Failed to load stats');
+    return empty;
+  }
+};
+
+const formatCell = (index: number): string => `${String.fromCharCode(65 + (index % SIZE))}${SIZE - Math.floor(index / SIZE)}`;
+
+export default function Gomoku() {
+  const [board, setBoard] = useState<Board>(createBoard);
+  const [isPlayerTurn, setIsPlayerTurn] = useState(true);
+  const [gameStatus, setGameStatus] = useState<'playing' | 'draw' | 'player-win' | 'ai-win'>('playing');
+  const [playerScore, setPlayerScore] = useState(0);
+  const [aiScore, setAiScore] = useState(0);
+  const [draws, setDraws] = useState(0);
+  const [isThinking, setIsThinking] = useState(false);
+  const [lastMove, setLastMove] = useState<number | null>(null);
+  const [winningLine, setWinningLine] = useState<number[]>([]);
+  const [aiReasoning, setAiReasoning] = useState<string | null>(null);
+  const [lastStarter, setLastStarter] = useState<'player' | 'ai'>('ai');
+  const aiTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const schedule = useCallback((callback: () => void, delay: number) => {
+    aiTimer.current = setTimeout(callback, delay);
+  }, []);
+
+  // Drop a pending AI move and any search still running for the old game
+  const cancelAi = () => {
+    if (aiTimer.current) clearTimeout(aiTimer.current);
+    aiTimer.current = null;
+    searchClient.cancel();
+    setIsThinking(false);
+  };
+
+  // Returns true when the game is over after `newBoard`
+  const finishTurn = useCallback((newBoard: Board): boolean => {
+    const line = findFive(newBoard);
+    if (line) {
+      setWinningLine(line);
+      if (newBoard[line[0]] === 'X') {
+        console.log('🎉 PLAYER WINS!');
+        setGameStatus('player-win');
+        setPlayerScore(prev => prev + 1);
+      } else {
+        console.log('🤖 AI WINS!');
+        setGameStatus('ai-win');
+        setAiScore(prev => prev + 1);
+      }
+      return true;
+    }
+
+    if (isBoardFull(newBoard)) {
+      console.log('🤝 Board full - DRAW');
+      setGameStatus('draw');
+      setDraws(prev => prev + 1);
+      return true;
+    }
+
+    return false;
+  }, []);
+
+  const aiMove = useCallback(async (currentBoard: Board) => {
+    const found = await searchClient.searchGomoku({ board: currentBoard, stone: 'O' });
+    if (!found) return;
+
+    console.log(`🤖 AI: ${found.reasoning} at ${formatCell(found.move)}`);
+    if (found.sequence.length > 1) {
+      console.log(`  Winning fours: ${found.sequence.map(formatCell).join(' → ')}`);
+    }
+
+    const newBoard = [...currentBoard];
+    newBoard[found.move] = 'O';
+    setBoard(newBoard);
+    setLastMove(found.move);
+    setAiReasoning(found.reasoning);
+    setIsThinking(false);
+
+    if (!finishTurn(newBoard)) setIsPlayerTurn(true);
+  }, [finishTurn]);
+
+  const makeMove = (index: number) => {
+    if (board[index] || gameStatus !== 'playing' || !isPlayerTurn || isThinking) return;
+
+    console.log(`👤 PLAYER MOVE: ${formatCell(index)}`);
+    const newBoard = [...board];
+    newBoard[index] = 'X';
+    setBoard(newBoard);
+    setLastMove(index);
+
+    if (finishTurn(newBoard)) return;
+
+    setIsPlayerTurn(false);
+    setIsThinking(true);
+    schedule(() => aiMove(newBoard), 400);
+  };
+
+  // Alternate who starts first (opposite of the last game)
+  const startGame = useCallback((previousStarter: 'player' | 'ai') => {
+    const newBoard = createBoard();
+    setBoard(newBoard);
+    setGameStatus('playing');
+    setLastMove(null);
+    setWinningLine([]);
+    setAiReasoning(null);
+
+    const aiStartsFirst = previousStarter === 'player';
+    setLastStarter(aiStartsFirst ? 'ai' : 'player');
+    setIsPlayerTurn(!aiStartsFirst);
+
+    if (aiStartsFirst) {
+      console.log('🎲 AI starts first! (alternating turns)');
+      setIsThinking(true);
+      schedule(() => aiMove(newBoard), 600);
+    } else {
+      console.log('🎲 Player starts first! (alternating turns)');
+    }
+  }, [aiMove, schedule]);
+
+  const resetGame = () => {
+    cancelAi();
+    startGame(lastStarter);
+  };
+
+  const resetStats = () => {
+    setPlayerScore(0);
+    setAiScore(0);
+    setDraws(0);
+    resetGame();
+  };
+
+  // Read stats from localStorage on mount, before the save below writes the empty score over them,
+  // and restore them once the first render is on screen
+  useEffect(() => {
+    console.log('⚫ Gomoku vs Barron AI - System Initialized');
+    const saved = readStats();
+    schedule(() => {
+      setPlayerScore(saved.playerScore);
+      setAiScore(saved.aiScore);
+      setDraws(saved.draws);
+      startGame(saved.lastStarter);
+    }, 0);
+  }, [schedule, startGame]);
+
+  // Stop a search that is still running when the page goes away
+  useEffect(() => () => searchClient.cancel(), []);
+
+  // Save stats to localStorage whenever they change
+  useEffect(() => {
+    localStorage.setItem('gomoku-stats', JSON.stringify({
+      playerScore,
+      aiScore,
+      draws,
+      lastStarter
+    }));
+  }, [playerScore, aiScore, draws, lastStarter]);
+
+  const totalGames = playerScore + aiScore + draws;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-black">
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl md:text-5xl font-black text-slate-900 dark:text-white mb-2">
+            Gomoku vs Barron AI
+          </h1>
+          <p className="text-slate-600 dark:text-slate-400 mb-4">เรียงหมากให้ได้ 5 ตัวติดกันก่อนเพื่อชนะ • 15×15</p>
+          <div className="flex gap-4 justify-center flex-wrap">
+            <Link
+              href="/"
+              className="inline-flex items-center gap-2 px-6 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-semibold rounded-lg hover:bg-slate-800 dark:hover:bg-slate-100 transition-colors duration-200 cursor-pointer"
+            >
+              <span>Tic-Tac-Toe Mode</span>
+            </Link>
+            <Link
+              href="/makhos"
+              className="inline-flex items-center gap-2 px-6 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-semibold rounded-lg hover:bg-slate-800 dark:hover:bg-slate-100 transition-colors duration-200 cursor-pointer"
+            >
+              <span>หมากฮอส Mode</span>
+            </Link>
+          </div>
+        </div>
+
+        <div className="max-w-5xl mx-auto grid lg:grid-cols-[1fr_320px] gap-6">
+          <div>
+            <div className="bg-amber-200 dark:bg-amber-900/60 rounded-xl p-3 md:p-4 border-4 border-amber-700 shadow-2xl">
+              <div
+                className="grid mx-auto"
+                style={{ gridTemplateColumns: `repeat(${SIZE}, minmax(0, 1fr))`, maxWidth: '560px' }}
+              >
+                {board.map((cell, index) => {
+                  const isWinning = winningLine.includes(index);
+                  const canPlay = !cell && isPlayerTurn && !isThinking && gameStatus === 'playing';
+
+                  return (
+                    <button
+                      key={index}
+                      onClick={() => makeMove(index)}
+                      disabled={!canPlay}
+                      className={`
+                        aspect-square relative flex items-center justify-center
+                        before:absolute before:inset-x-0 before:top-1/2 before:h-px before:bg-amber-900/50
+                        after:absolute after:inset-y-0 after:left-1/2 after:w-px after:bg-amber-900/50
+                        ${canPlay ? 'cursor-pointer hover:bg-amber-300/60 dark:hover:bg-amber-800/60' : 'cursor-default'}
+                      `}
+                    >
+                      {cell && (
+                        <span className={`
+                          relative z-10 w-[85%] h-[85%] rounded-full shadow-md
+                          ${cell === 'X' ? 'bg-slate-900' : 'bg-white border border-slate-300'}
+                          ${isWinning ? 'ring-2 ring-green-500' : index === lastMove ? 'ring-2 ring-red-500' : ''}
+                        `} />
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="flex gap-3 justify-center mt-6">
+              <button
+                onClick={() => resetGame()}
+                className="px-6 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-semibold transition-all cursor-pointer"
+              >
+                New Game
+              </button>
+              <button
+                onClick={resetStats}
+                className="px-6 py-2.5 bg-slate-600 hover:bg-slate-700 text-white rounded-lg font-semibold transition-all cursor-pointer"
+              >
+                Reset Stats
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            <div className="bg-white dark:bg-slate-800 rounded-xl p-5 border border-slate-200 dark:border-slate-700">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="text-center">
+                  <div className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase mb-2">You (ดำ)</div>
+                  <div className="text-3xl font-bold text-slate-900 dark:text-white">{playerScore}</div>
+                </div>
+                <div className="text-center border-x border-slate-200 dark:border-slate-700">
+                  <div className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase mb-2">เสมอ</div>
+                  <div className="text-3xl font-bold text-slate-900 dark:text-white">{draws}</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase mb-2">AI (ขาว)</div>
+                  <div className="text-3xl font-bold text-slate-900 dark:text-white">{aiScore}</div>
+                </div>
+              </div>
+              <div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700 flex justify-between items-center text-sm">
+                <span className="text-slate-600 dark:text-slate-400">Your Win Rate</span>
+                <span className="font-semibold text-slate-900 dark:text-white">
+                  {totalGames > 0 ? `${((playerScore / totalGames) * 100).toFixed(0)}%` : '0%'}
+                </span>
+              </div>
+            </div>
+
+            <div className="bg-white dark:bg-slate-800 rounded-xl p-6 border border-slate-200 dark:border-slate-700 text-center">
+              {gameStatus === 'playing' && (
+                <>
+                  <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1">
+                    {isPlayerTurn && !isThinking ? 'Your Turn' : 'AI Turn'}
+                  </p>
+                  <p className="text-base font-semibold text-slate-900 dark:text-white">
+                    {isPlayerTurn && !isThinking ? 'Place a black stone' : 'Calculating...'}
+                  </p>
+                </>
+              )}
+              {gameStatus === 'player-win' && (
+                <>
+                  <p className="text-xs font-medium text-green-600 dark:text-green-400 uppercase tracking-wider mb-1">Victory</p>
+                  <p className="text-base font-semibold text-slate-900 dark:text-white">You won!</p>
+                </>
+              )}
+              {gameStatus === 'ai-win' && (
+                <>
+                  <p className="text-xs font-medium text-red-600 dark:text-red-400 uppercase tracking-wider mb-1">Defeat</p>
+                  <p className="text-base font-semibold text-slate-900 dark:text-white">AI won</p>
+                </>
+              )}
+              {gameStatus === 'draw' && (
+                <>
+                  <p className="text-xs font-medium text-amber-600 dark:text-amber-400 uppercase tracking-wider mb-1">Draw</p>
+                  <p className="text-base font-semibold text-slate-900 dark:text-white">Board full</p>
+                </>
+              )}
+              {aiReasoning && (
+                <p className="mt-3 text-xs font-mono text-slate-500 dark:text-slate-400">{aiReasoning}</p>
+              )}
+            </div>
+
+            <div className="bg-blue-50 dark:bg-blue-900/20 rounded-xl p-4 border border-blue-200 dark:border-blue-800">
+              <p className="text-sm text-blue-900 dark:text-blue-100">
+                <strong>วิธีเล่น</strong><br/>
+                • คลิกจุดตัดว่างเพื่อวางหมากดำ<br/>
+                • เรียง 5 ตัวขึ้นไปในแนวนอน แนวตั้ง หรือแนวทแยงเพื่อชนะ<br/>
+                • ผลัดกันเริ่มก่อนทุกเกม
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
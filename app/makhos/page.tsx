@@ -0,0 +1,1662 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import {
+  type Board,
+  type Color,
+  type DrawReason,
+  type Move,
+  type Piece,
+  type Position,
+  type Variant,
+  DEFAULT_VARIANT,
+  DRAW_REASONS,
+  VARIANTS,
+  VARIANT_NAMES,
+  initializeBoard,
+  initialPosition,
+  getPosition,
+  isValidSquare,
+  capturedSquare,
+  applyMove,
+  applyStep,
+  isKing,
+  legalMoves,
+  result,
+  setupError,
+  drawReason,
+  extendHistory,
+  positionKey,
+  opponentOf
+} from '@/lib/makhos';
+import {
+  type Agent,
+  type Difficulty,
+  AGENT_LIST,
+  DIFFICULTIES,
+  DIFFICULTY_LEVELS,
+  MAN_SCORE,
+  acceptsDraw,
+  agentLabel,
+  evaluateBoard,
+  randomMove
+} from '@/lib/makhos-ai';
+import { sameMove } from '@/lib/makhos-tt';
+import {
+  type GameHistory,
+  type MatchRecord,
+  type PlaybackSpeed,
+  PLAYBACK_SPEEDS,
+  PLAYBACK_SPEED_LIST,
+  dropRedo,
+  extendMatch,
+  recordPly,
+  redoTarget,
+  startHistory,
+  startMatch,
+  undoTarget
+} from '@/lib/match';
+import { NotationError, formatPdn, formatPdnMove, parsePdn, parseSetup, toPositionString } from '@/lib/notation';
+import { type MoveQuality, type PlyReview, QUALITIES, barShare, graphPoints, reviewMakhosPly } from '@/lib/analysis';
+import type { MakhosSearchResult, SearchProgressUpdate } from '@/lib/search-protocol';
+import { SearchClient } from '@/lib/search-client';
+
+interface ScoreLine {
+  playerScore: number;
+  aiScore: number;
+  draws: number;
+}
+
+type Scores = Record<Difficulty, ScoreLine>;
+
+const emptyScores = (): Scores =>
+  Object.fromEntries(DIFFICULTY_LEVELS.map(level => [level, { playerScore: 0, aiScore: 0, draws: 0 }])) as Scores;
+
+// Hot-seat: two people take turns on one screen; watch: two AI agents play each other
+type Opponent = 'ai' | 'human' | 'watch';
+
+const OPPONENT_LABELS: Record<Opponent, string> = { ai: 'vs Barron AI', human: 'Human vs Human', watch: 'AI vs AI' };
+
+type Match = MatchRecord<Position, Move>;
+
+const COLOR_NAMES: Record<Color, string> = { B: 'ดำ (Black)', W: 'ขาว (White)' };
+
+const SHORT_COLOR_NAMES: Record<Color, string> = { B: 'ดำ', W: 'ขาว' };
+
+const searchClient = new SearchClient();
+
+// Thinking time per position in the post-game analysis - a long game is reviewed in well under a minute
+const ANALYSIS_BUDGET_MS = 400;
+
+// Two men up fills the evaluation bar and tops the graph; within a tenth of a man the position reads as level
+const EVAL_RANGE = 2 * MAN_SCORE;
+const LEVEL_WITHIN = MAN_SCORE / 10;
+// Thinking time for the evaluation bar's search of the board on screen
+const EVAL_BUDGET_MS = 300;
+
+// Scores in men, a forced win or loss spelled out
+const formatScore = (score: number): string => {
+  if (Math.abs(score) >= 50000) return score > 0 ? 'forced win' : 'forced loss';
+  return `${score >= 0 ? '+' : ''}${(score / MAN_SCORE).toFixed(1)}`;
+};
+
+// What the hint says about the engine's pick - its score for the side to move, how deep it looked and the line it expects
+const describeHint = ({ move, score, depth, pv, evaluations }: MakhosSearchResult): string =>
+  [
+    move && formatPdnMove(move),
+    move && move.captures.length > 0 && `captures ${move.captures.length}`,
+    evaluations.some(entry => move && sameMove(entry.move, move) && entry.promotion) && 'promotes 👑',
+    `score ${formatScore(score)}`,
+    `depth ${depth}`,
+    pv.length > 1 && `line ${pv.map(formatPdnMove).join(' ')}`
+  ].filter(Boolean).join(' · ');
+
+const QUALITY_COLOURS: Record<MoveQuality, string> = {
+  best: 'text-emerald-600 dark:text-emerald-400',
+  inaccuracy: 'text-amber-600 dark:text-amber-400',
+  mistake: 'text-orange-600 dark:text-orange-400',
+  blunder: 'text-red-600 dark:text-red-400'
+};
+
+const formatSquare = (index: number): string => {
+  const [row, col] = getPosition(index);
+  return `[${row},${col}]`;
+};
+
+// PDN squares with every landing of a multi-jump, and a crown when the man is promoted
+const formatMove = (move: Move, before: Board, after: Board): string => {
+  const landing = move.path[move.path.length - 1];
+  const promoted = isKing(after[landing]) && !isKing(before[move.from]);
+  return `${formatPdnMove(move)}${promoted ? ' 👑' : ''}`;
+};
+
+export default function ThaiMakhos() {
+  const [board, setBoard] = useState<Board>(initializeBoard());
+  const [isPlayerTurn, setIsPlayerTurn] = useState(true);
+  const [gameStatus, setGameStatus] = useState<'playing' | 'draw' | 'player-win' | 'ai-win'>('playing');
+  const [drawBy, setDrawBy] = useState<DrawReason | 'agreement' | null>(null);
+  const [drawDeclined, setDrawDeclined] = useState(false); // One draw offer per player move
+  const [selectedPiece, setSelectedPiece] = useState<number | null>(null);
+  const [validMoves, setValidMoves] = useState<number[]>([]);
+  const [difficulty, setDifficulty] = useState<Difficulty>('expert');
+  const [variant, setVariant] = useState<Variant>(DEFAULT_VARIANT);
+  const [scores, setScores] = useState<Scores>(emptyScores);
+  const [opponent, setOpponent] = useState<Opponent>('ai');
+  const [playerColor, setPlayerColor] = useState<Color>('B'); // Colour the human plays against the AI
+  // Hot-seat results stay off the vs-AI score - playerScore counts Black wins, aiScore White wins
+  const [hotSeatScore, setHotSeatScore] = useState<ScoreLine>({ playerScore: 0, aiScore: 0, draws: 0 });
+  const [turn, setTurn] = useState<Color>('B'); // Side to move in a hot-seat game
+  const [suggestion, setSuggestion] = useState<Move | null>(null);
+  const [hintReason, setHintReason] = useState<string | null>(null); // Why the engine picked the highlighted move
+  const [hintPending, setHintPending] = useState(false); // A hint search has the worker
+  const [showEvalBar, setShowEvalBar] = useState(false);
+  const [evaluation, setEvaluation] = useState<number | null>(null); // Last search score for the bar, positive when White stands better
+  const [agents, setAgents] = useState<Record<Color, Agent>>({ B: 'expert', W: 'medium' });
+  const [match, setMatch] = useState<Match>(() => startMatch(initialPosition()));
+  const [ply, setPly] = useState(0); // Match position on the board - below the last ply while stepping back
+  const [matchDraw, setMatchDraw] = useState<DrawReason | null>(null); // How a drawn match ended
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState<PlaybackSpeed>('normal');
+  const [history, setHistory] = useState<GameHistory<Position, Move>>(() => startHistory(initialPosition()));
+  const [takeBacks, setTakeBacks] = useState(true); // Off for rated games
+  const [setup, setSetup] = useState<Position | null>(null); // Position being edited; null outside the editor
+  const [setupPiece, setSetupPiece] = useState<Piece>('BP'); // What a click in the editor puts down; null removes
+  const [setupText, setSetupText] = useState('');
+  const [setupMessage, setSetupMessage] = useState<string | null>(null);
+  const [importText, setImportText] = useState<string | null>(null); // Record being pasted in; null while the import box is closed
+  const [recordMessage, setRecordMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [review, setReview] = useState<PlyReview<Move>[] | null>(null); // Every ply of the finished game, graded by the expert search
+  const [analysedPlies, setAnalysedPlies] = useState<number | null>(null); // Progress while the analysis runs
+  const [reviewPly, setReviewPly] = useState<number | null>(null); // Reviewed move whose position is on the board
+  const [isThinking, setIsThinking] = useState(false);
+  const [mustCaptureFrom, setMustCaptureFrom] = useState<number[]>([]);
+  const [candidateMoves, setCandidateMoves] = useState<Move[]>([]); // Legal moves matching the squares clicked so far
+  const [chainPath, setChainPath] = useState<number[]>([]); // Landing squares of a multi-jump in progress
+  const [lastStarter, setLastStarter] = useState<'player' | 'ai'>('ai');
+  const [searchProgress, setSearchProgress] = useState<SearchProgressUpdate | null>(null);
+  const aiTimer = useRef<ReturnType<typeof setTimeout> | null>(null); // Pending AI delay or multi-jump step
+  const positionHistory = useRef<string[]>([]); // Position keys since the last capture or man move
+  const matchHistory = useRef<string[]>([]); // The same for the last ply of a spectator match
+
+  const isHotSeat = opponent === 'human';
+  const isWatching = opponent === 'watch';
+  const aiColor = opponentOf(playerColor);
+  // The side being clicked in: the player's colour against the AI
+  const mover: Color = isHotSeat ? turn : playerColor;
+  // White's side of the board is drawn at the bottom when the player has White
+  const flipped = opponent === 'ai' && playerColor === 'W';
+  const shownBoard = isWatching ? match.positions[ply].board : setup ? setup.board : reviewPly !== null ? history.positions[reviewPly].board : board;
+  const lastMatchMove = isWatching && ply > 0 ? match.moves[ply - 1] : null;
+  const reviewed = !setup && reviewPly !== null && review ? review[reviewPly] : null;
+  // Rated games go without hints or the evaluation bar, as they go without take-backs
+  const assistAllowed = opponent !== 'ai' || takeBacks;
+  // Side to move on the board on screen
+  const shownTurn: Color = isWatching
+    ? match.positions[ply].turn
+    : setup ? setup.turn : reviewPly !== null ? history.positions[reviewPly].turn : isHotSeat ? turn : isPlayerTurn ? playerColor : aiColor;
+  const evalBarShown = showEvalBar && assistAllowed;
+  // The bar keeps the last score while the board on screen is being searched
+  const shownEvaluation = evalBarShown ? evaluation : null;
+  const { playerScore, aiScore, draws } = isHotSeat ? hotSeatScore : scores[difficulty];
+  const variantRules = VARIANTS[variant];
+
+  const schedule = (callback: () => void, delay: number) => {
+    aiTimer.current = setTimeout(callback, delay);
+  };
+
+  // Drop everything the AI still had queued for the current game
+  const cancelAi = () => {
+    if (aiTimer.current) clearTimeout(aiTimer.current);
+    aiTimer.current = null;
+    searchClient.cancel();
+    setSearchProgress(null);
+  };
+
+  // Load stats from localStorage
+  useEffect(() => {
+    console.log('🎮 หมากฮอสไทย vs Barron AI - System Initialized');
+    
+    let savedDifficulty: Difficulty = 'expert';
+    let savedVariant: Variant = DEFAULT_VARIANT;
+    let savedOpponent: Opponent = 'ai';
+    let savedColor: Color = 'B';
+    const savedStats = localStorage.getItem('makhos-stats');
+    if (savedStats) {
+      try {
+        const stats = JSON.parse(savedStats);
+        const loaded = emptyScores();
+        if (stats.scores) {
+          for (const level of DIFFICULTY_LEVELS) {
+            loaded[level] = { ...loaded[level], ...stats.scores[level] };
+          }
+        } else {
+          // Records saved before difficulty levels existed were all played at full strength
+          loaded.expert = { playerScore: stats.playerScore || 0, aiScore: stats.aiScore || 0, draws: 0 };
+        }
+        if (stats.difficulty in DIFFICULTIES) savedDifficulty = stats.difficulty;
+        setScores(loaded);
+        setDifficulty(savedDifficulty);
+        // Records saved before the rule variants default to the real Thai rules
+        if (stats.variant in VARIANTS) savedVariant = stats.variant;
+        setVariant(savedVariant);
+        if (stats.hotSeat) setHotSeatScore(prev => ({ ...prev, ...stats.hotSeat }));
+        if (stats.opponent in OPPONENT_LABELS) savedOpponent = stats.opponent;
+        setOpponent(savedOpponent);
+        if (stats.agents?.B && AGENT_LIST.includes(stats.agents.B) && AGENT_LIST.includes(stats.agents.W)) setAgents(stats.agents);
+        if (stats.speed in PLAYBACK_SPEEDS) setSpeed(stats.speed);
+        if (stats.takeBacks === false) setTakeBacks(false);
+        if (stats.evalBar === true) setShowEvalBar(true);
+        // Records saved before the colour choice were all played as Black
+        if (stats.playerColor === 'W') savedColor = 'W';
+        setPlayerColor(savedColor);
+        setLastStarter(stats.lastStarter || 'ai');
+      } catch (error) {
+        console.error('Failed to load stats');
+      }
+    }
+    
+    // Determine who starts based on lastStarter; Black always opens a hot-seat game
+    const nextStarter = lastStarter === 'player' && savedOpponent === 'ai' ? 'ai' : 'player';
+    // Variants differ in how many rows of men they start with
+    const startBoard = initializeBoard(savedVariant);
+    setBoard(startBoard);
+    if (savedOpponent === 'watch') {
+      const start = initialPosition('B', savedVariant);
+      matchHistory.current = [positionKey(start)];
+      setMatch(startMatch(start));
+      console.log('🍿 Spectator match - press Play to start');
+      return;
+    }
+    const savedAiColor = opponentOf(savedColor);
+    const start: Position = { board: startBoard, turn: nextStarter === 'ai' ? savedAiColor : savedColor, variant: savedVariant };
+    positionHistory.current = [positionKey(start)];
+    setHistory(startHistory(start));
+    if (nextStarter === 'ai') {
+      console.log('🤖 AI starts first this game');
+      setIsPlayerTurn(false);
+      setIsThinking(true);
+      schedule(() => aiMove(startBoard, savedDifficulty, savedVariant, savedAiColor), 1000);
+    } else {
+      console.log('👤 Player starts first this game');
+    }
+  }, []);
+
+  // Stop a search that is still running when the page goes away
+  useEffect(() => () => searchClient.cancel(), []);
+
+  // Search the board on screen for the evaluation bar. A new Makhos search cancels the one running in the worker,
+  // so the bar waits while the AI, a hint, a spectator match or the post-game analysis is using it - and while a
+  // multi-jump is half played - and searches again once the worker is free
+  useEffect(() => {
+    if (!evalBarShown || isThinking || hintPending || isPlaying || chainPath.length > 0 || analysedPlies !== null) return;
+    let current = true;
+    searchClient.searchMakhos({ board: shownBoard, difficulty: 'expert', variant, side: shownTurn, budgetMs: EVAL_BUDGET_MS }).then(search => {
+      if (!current || !search) return;
+      // The side to move's best noise-free score; with no move left it has lost
+      const best = Math.max(...search.evaluations.map(entry => entry.rawScore));
+      setEvaluation(shownTurn === 'W' ? best : -best);
+    });
+    return () => {
+      current = false;
+    };
+  }, [evalBarShown, isThinking, hintPending, isPlaying, chainPath.length, analysedPlies, shownBoard, shownTurn, variant]);
+
+  // Save stats to localStorage
+  useEffect(() => {
+    localStorage.setItem('makhos-stats', JSON.stringify({
+      difficulty,
+      variant,
+      opponent,
+      playerColor,
+      agents,
+      speed,
+      takeBacks,
+      evalBar: showEvalBar,
+      scores,
+      hotSeat: hotSeatScore,
+      lastStarter
+    }));
+  }, [difficulty, variant, opponent, playerColor, agents, speed, takeBacks, showEvalBar, scores, hotSeatScore, lastStarter]);
+
+  // Count a finished game on the score line of the level it was played at, or on the hot-seat line
+  const recordResult = (level: Difficulty, outcome: keyof ScoreLine) => {
+    if (isHotSeat) {
+      setHotSeatScore(prev => ({ ...prev, [outcome]: prev[outcome] + 1 }));
+      return;
+    }
+    setScores(prev => ({ ...prev, [level]: { ...prev[level], [outcome]: prev[level][outcome] + 1 } }));
+  };
+
+
+  // Highlight forced captures when the player's turn starts
+  useEffect(() => {
+    if (gameStatus === 'playing' && isPlayerTurn && !isThinking && chainPath.length === 0) {
+      const captureMoves = legalMoves({ board, turn: mover, variant }).filter(move => move.captures.length > 0);
+      setMustCaptureFrom([...new Set(captureMoves.map(move => move.from))]);
+    }
+  }, [board, mover, variant, gameStatus, isPlayerTurn, isThinking, chainPath]);
+
+  const clearSelection = () => {
+    setSelectedPiece(null);
+    setValidMoves([]);
+    setCandidateMoves([]);
+    setChainPath([]);
+  };
+
+  // Position editor - changes go straight into the position string box
+  const updateSetup = (position: Position) => {
+    setSetup(position);
+    setSetupText(toPositionString(position));
+    setSetupMessage(null);
+  };
+
+  // A click puts the chosen piece down, or takes it off again; light squares stay empty
+  const editSquare = (index: number) => {
+    const [row, col] = getPosition(index);
+    if (!setup || !isValidSquare(row, col)) return;
+    const next = [...setup.board];
+    next[index] = next[index] === setupPiece ? null : setupPiece;
+    updateSetup({ ...setup, board: next });
+  };
+
+  const handleSquareClick = (index: number) => {
+    if (setup) {
+      editSquare(index);
+      return;
+    }
+    if (isWatching || gameStatus !== 'playing' || !isPlayerTurn || isThinking) return;
+
+    // In the middle of a multi-jump only the next landing squares can be clicked
+    if (chainPath.length > 0) {
+      if (validMoves.includes(index)) makeMove(selectedPiece!, index);
+      return;
+    }
+
+    const piece = board[index];
+
+    if (piece && piece[0] === mover) {
+      // Forced captures leave pieces that cannot capture without any legal move
+      const moves = legalMoves({ board, turn: mover, variant }).filter(move => move.from === index);
+      if (moves.length === 0) return;
+      
+      setSelectedPiece(index);
+      setCandidateMoves(moves);
+      setValidMoves([...new Set(moves.map(move => move.path[0]))]);
+      return;
+    }
+
+    if (selectedPiece !== null && validMoves.includes(index)) {
+      makeMove(selectedPiece, index);
+    } else {
+      clearSelection();
+    }
+  };
+
+  const makeMove = (from: number, to: number) => {
+    console.log(`\n👤 ========== PLAYER MOVE ==========`);
+    console.log(`📍 From: ${formatSquare(from)} → To: ${formatSquare(to)}`);
+    
+    const capturedIndex = capturedSquare(board, from, to);
+    if (capturedIndex !== -1) {
+      console.log(`🎯 CAPTURED: ${board[capturedIndex]} at ${formatSquare(capturedIndex)}`);
+    }
+
+    const newBoard = applyStep(board, from, to);
+    if (newBoard[to] !== board[from]) {
+      console.log('👑 PROMOTION to King!');
+    }
+
+    // Continue the multi-jump until one of the candidate moves is complete
+    const step = chainPath.length;
+    const remaining = candidateMoves.filter(move => move.path[step] === to);
+    if (!remaining.some(move => move.path.length === step + 1)) {
+      const nextLandings = [...new Set(remaining.map(move => move.path[step + 1]))];
+      console.log(`🔄 Multi-jump available! ${nextLandings.length} more captures possible`);
+      setBoard(newBoard);
+      setSelectedPiece(to);
+      setCandidateMoves(remaining);
+      setChainPath([...chainPath, to]);
+      setValidMoves(nextLandings);
+      setMustCaptureFrom([to]);
+      return;
+    }
+
+    setBoard(newBoard);
+    clearSelection();
+    setMustCaptureFrom([]);
+    setDrawDeclined(false);
+
+    const played = remaining.find(move => move.path.length === step + 1)!;
+    const after: Position = { board: newBoard, turn: opponentOf(mover), variant };
+    positionHistory.current = extendHistory(positionHistory.current, { board, turn: mover }, played, after);
+    setHistory(prev => recordPly(prev, played, after));
+    setSuggestion(null);
+    setHintReason(null);
+    searchClient.cancel(); // A hint still being searched is out of date now
+    setSearchProgress(null);
+
+    const blackPieces = newBoard.filter(p => p && p[0] === 'B').length;
+    const whitePieces = newBoard.filter(p => p && p[0] === 'W').length;
+
+    console.log(`📊 After player move: White=${whitePieces} pieces, Black=${blackPieces} pieces`);
+
+    if (result(after) === mover) {
+      console.log(isHotSeat ? `🎉 ${COLOR_NAMES[mover]} WINS!` : '🎉 PLAYER WINS!');
+      // Hot-seat keeps Black's wins in the player column
+      const playerWon = !isHotSeat || mover === 'B';
+      setGameStatus(playerWon ? 'player-win' : 'ai-win');
+      recordResult(difficulty, playerWon ? 'playerScore' : 'aiScore');
+      // Don't update lastStarter here - it will be updated in resetGame
+      return;
+    }
+
+    if (endInDraw(after, difficulty)) return;
+
+    if (isHotSeat) {
+      setTurn(opponentOf(mover));
+      return;
+    }
+
+    console.log('👤 ========== PLAYER MOVE END ==========\n');
+    
+    setIsPlayerTurn(false);
+    setIsThinking(true);
+    schedule(() => aiMove(newBoard, difficulty, variant, aiColor), 800);
+  };
+
+  // Search runs in the worker; a New Game in the meantime resolves it with null
+  const aiMove = async (currentBoard: Board, level: Difficulty, rules: Variant, color: Color) => {
+    console.log(`🤖 ========== AI TURN START (${DIFFICULTIES[level].label}, ${VARIANTS[rules].label} rules, ${COLOR_NAMES[color]}) ==========`);
+    console.log('📋 Current Board State:');
+    evaluateBoard(currentBoard, true, rules);
+    
+    const search = await searchClient.searchMakhos({ board: currentBoard, difficulty: level, variant: rules, side: color }, setSearchProgress);
+    setSearchProgress(null);
+    if (!search) return;
+    
+    if (search.evaluations.some(({ move }) => move.captures.length > 0)) {
+      console.log('⚠️ FORCED CAPTURES available from positions:', [...new Set(search.evaluations.map(({ move }) => formatSquare(move.from)))]);
+    }
+    if (search.missedChains) {
+      console.log('🙈 Only looked at the shortest capture chains');
+    }
+    
+    console.log(`🔍 Analyzed ${search.evaluations.length} AI moves...`);
+    for (const { move, depth, finalScore, promotion } of search.evaluations) {
+      const isCapture = move.captures.length > 0;
+      console.log(`  → ${formatSquare(move.from)} → ${move.path.map(formatSquare).join(' → ')}: ${isCapture ? `🎯 CAPTURE x${move.captures.length}` : '📦 Normal'} | Depth: ${depth} | Score: ${finalScore} ${promotion ? '👑 PROMOTION' : ''}`);
+    }
+    
+    if (!search.move) {
+      console.log('❌ No valid moves available - AI cannot move');
+      setIsPlayerTurn(true);
+      setIsThinking(false);
+      return;
+    }
+    
+    const chosen = search.move;
+    console.log('\n🏆 BEST MOVE SELECTED:');
+    console.log(`  Path: ${formatSquare(chosen.from)} → ${chosen.path.map(formatSquare).join(' → ')}`);
+    console.log(`  Type: ${chosen.captures.length > 0 ? '🎯 CAPTURE' : '📦 Normal Move'}`);
+    console.log(`  Score: ${search.score}`);
+    console.log(`  Depth: ${search.depth} | Nodes: ${search.nodes.toLocaleString()}`);
+    console.log(`  PV: ${search.pv.map(move => [move.from, ...move.path].map(formatSquare).join('-')).join(' ')}`);
+    
+    // Play the chosen move one jump at a time so the player can follow a multi-jump
+    const playStep = (stepBoard: Board, from: number, step: number) => {
+      const newBoard = applyStep(stepBoard, from, chosen.path[step]);
+      setBoard(newBoard);
+      
+      if (step + 1 < chosen.path.length) {
+        console.log('🔄 Multi-jump available! Continuing capture sequence...');
+        schedule(() => playStep(newBoard, chosen.path[step], step + 1), 600);
+        return;
+      }
+      
+      finishAiMove(currentBoard, chosen, newBoard, level, rules, color);
+    };
+    
+    playStep(currentBoard, chosen.from, 0);
+  };
+
+  const finishAiMove = (before: Board, played: Move, newBoard: Board, level: Difficulty, rules: Variant, color: Color) => {
+    const after: Position = { board: newBoard, turn: opponentOf(color), variant: rules };
+    positionHistory.current = extendHistory(positionHistory.current, { board: before, turn: color }, played, after);
+    setHistory(prev => recordPly(prev, played, after));
+
+    const blackPieces = newBoard.filter(p => p && p[0] === 'B').length;
+    const whitePieces = newBoard.filter(p => p && p[0] === 'W').length;
+    
+    console.log(`\n📊 After AI move: White=${whitePieces} pieces, Black=${blackPieces} pieces`);
+    
+    // Player loses when out of pieces or out of legal moves
+    if (result(after) === color) {
+      const playerPieces = color === 'W' ? blackPieces : whitePieces;
+      console.log(playerPieces === 0 ? '🎉 AI WINS!' : '😢 Player has no valid moves - AI WINS!');
+      setGameStatus('ai-win');
+      recordResult(level, 'aiScore');
+      // Don't update lastStarter here - it will be updated in resetGame
+    } else {
+      endInDraw(after, level);
+    }
+    
+    console.log('🤖 ========== AI TURN END ==========\n');
+    setIsPlayerTurn(true);
+    setIsThinking(false);
+  };
+
+  // Repetition and move-limit draws are checked against positionHistory, which already ends with `position`
+  const endInDraw = (position: Position, level: Difficulty): boolean => {
+    const reason = drawReason(position, positionHistory.current);
+    if (!reason) return false;
+
+    console.log(`🤝 DRAW: ${DRAW_REASONS[reason]}`);
+    setGameStatus('draw');
+    setDrawBy(reason);
+    recordResult(level, 'draws');
+    return true;
+  };
+
+  // The AI weighs the offer against its own evaluation of the board; in hot-seat both players are at the screen
+  const offerDraw = () => {
+    if (gameStatus !== 'playing' || !isPlayerTurn || isThinking || chainPath.length > 0 || drawDeclined) return;
+
+    if (isHotSeat || acceptsDraw(board, variant, aiColor)) {
+      console.log(isHotSeat ? '🤝 Draw agreed' : '🤝 AI accepted the draw offer');
+      setGameStatus('draw');
+      setDrawBy('agreement');
+      recordResult(difficulty, 'draws');
+      clearSelection();
+      setMustCaptureFrom([]);
+    } else {
+      console.log('🙅 AI declined the draw offer');
+      setDrawDeclined(true);
+    }
+  };
+
+  // `from` starts the game on a set-up position instead of the opening one; whoever it gives the move to starts
+  const resetGame = (
+    level: Difficulty = difficulty,
+    rules: Variant = variant,
+    nextOpponent: Opponent = opponent,
+    nextColor: Color = playerColor,
+    from?: Position
+  ) => {
+    cancelAi();
+    const newBoard = from ? from.board : initializeBoard(rules);
+    setBoard(newBoard);
+    setGameStatus('playing');
+    setDrawBy(null);
+    setDrawDeclined(false);
+    clearSelection();
+    setIsThinking(false);
+    setMustCaptureFrom([]);
+    setSuggestion(null);
+    setHintReason(null);
+    setIsPlaying(false);
+    setSetup(null);
+    setReview(null);
+    setReviewPly(null);
+
+    if (nextOpponent === 'watch') {
+      startSpectatorMatch(agents, rules);
+      return;
+    }
+
+    if (nextOpponent === 'human') {
+      const start: Position = from ?? { board: newBoard, turn: 'B', variant: rules };
+      console.log(`👥 Hot-seat game - ${COLOR_NAMES[start.turn]} moves first`);
+      setTurn(start.turn);
+      setIsPlayerTurn(true);
+      positionHistory.current = [positionKey(start)];
+      setHistory(startHistory(start));
+      return;
+    }
+    
+    // Alternate starter based on current lastStarter; a set-up position already says who is to move
+    const nextAiColor = opponentOf(nextColor);
+    const nextStarter = from ? (from.turn === nextAiColor ? 'ai' : 'player') : lastStarter === 'player' ? 'ai' : 'player';
+    if (!from) setLastStarter(nextStarter);
+    const start: Position = from ?? { board: newBoard, turn: nextStarter === 'ai' ? nextAiColor : nextColor, variant: rules };
+    positionHistory.current = [positionKey(start)];
+    setHistory(startHistory(start));
+    
+    if (nextStarter === 'ai') {
+      console.log('🤖 AI starts first this game');
+      setIsPlayerTurn(false);
+      setIsThinking(true);
+      schedule(() => aiMove(newBoard, level, rules, nextAiColor), 1000);
+    } else {
+      console.log('👤 Player starts first this game');
+      setIsPlayerTurn(true);
+    }
+  };
+
+  const resetStats = () => {
+    if (isHotSeat) {
+      setHotSeatScore({ playerScore: 0, aiScore: 0, draws: 0 });
+    } else {
+      setScores(prev => ({ ...prev, [difficulty]: { playerScore: 0, aiScore: 0, draws: 0 } }));
+    }
+    resetGame();
+  };
+
+  const changeOpponent = (next: Opponent) => {
+    if (next === opponent) return;
+    setOpponent(next);
+    resetGame(difficulty, variant, next);
+  };
+
+  // Switching sides mid-game would hand the player the AI's pieces, so it starts a new game
+  const changeColor = (color: Color) => {
+    if (color === playerColor) return;
+    setPlayerColor(color);
+    resetGame(difficulty, variant, opponent, color);
+  };
+
+  // Rated games go without take-backs, so switching the setting starts a new game
+  const changeTakeBacks = (allowed: boolean) => {
+    if (allowed === takeBacks) return;
+    setTakeBacks(allowed);
+    resetGame();
+  };
+
+  // Whether the human played the move made from ply `at` - every move in hot-seat, the player's colour against the AI
+  const humanMoves = (at: number): boolean => isHotSeat || history.positions[at].turn === playerColor;
+
+  // Put the shown ply of `record` on the board - results already counted stay on the score line
+  const restorePly = (record: GameHistory<Position, Move>, hotSeat: boolean = isHotSeat) => {
+    const position = record.positions[record.ply];
+    setHistory(record);
+
+    // Repetitions count from the last capture or man move up to the restored position
+    let keys = [positionKey(record.positions[0])];
+    for (let at = 0; at < record.ply; at++) {
+      keys = extendHistory(keys, record.positions[at], record.moves[at], record.positions[at + 1]);
+    }
+    positionHistory.current = keys;
+
+    setBoard(position.board);
+    setTurn(position.turn);
+    const winner = result(position);
+    const reason = winner ? null : drawReason(position, keys);
+    setGameStatus(winner ? (winner === (hotSeat ? 'B' : playerColor) ? 'player-win' : 'ai-win') : reason ? 'draw' : 'playing');
+    setDrawBy(reason);
+    setDrawDeclined(false);
+    clearSelection();
+    setMustCaptureFrom([]);
+    setSuggestion(null);
+    setHintReason(null);
+    setReview(null);
+    setReviewPly(null);
+    setIsPlayerTurn(true);
+  };
+
+  // Takes back the AI's reply together with the move before it, or the last move in hot-seat
+  const undo = () => {
+    const target = undoTarget(history, humanMoves);
+    if (!takeBacks || target === null) return;
+    // A reply that was still being searched or played out never made it into the history, so there is nothing to redo
+    const pending = isThinking;
+    cancelAi();
+    setIsThinking(false);
+    console.log(`↩️ UNDO to ply ${target}`);
+    const rewound = { ...history, ply: target };
+    restorePly(pending ? dropRedo(rewound) : rewound);
+  };
+
+  const redo = () => {
+    const target = redoTarget(history, humanMoves);
+    if (!takeBacks || target === null) return;
+    console.log(`↪️ REDO to ply ${target}`);
+    restorePly({ ...history, ply: target });
+  };
+
+  // The game so far in PDN, up to the ply on the board
+  const exportRecord = (): string => {
+    const names: Record<Color, string> = isHotSeat
+      ? { B: 'Player 1', W: 'Player 2' }
+      : { [playerColor]: 'Player', [aiColor]: `Barron AI (${DIFFICULTIES[difficulty].label})` } as Record<Color, string>;
+    const agreed = drawBy === 'agreement' && history.ply === history.moves.length;
+    return formatPdn(
+      { start: history.positions[0], moves: history.moves.slice(0, history.ply) },
+      { Black: names.B, White: names.W, Date: new Date().toISOString().slice(0, 10), ...(agreed ? { Result: '1/2-1/2' } : {}) }
+    );
+  };
+
+  const copyRecord = async () => {
+    try {
+      await navigator.clipboard.writeText(exportRecord());
+      setRecordMessage({ text: 'คัดลอกบันทึกเกมแล้ว', isError: false });
+    } catch {
+      setRecordMessage({ text: 'The clipboard is not available - use Download instead', isError: true });
+    }
+  };
+
+  const downloadRecord = () => {
+    const url = URL.createObjectURL(new Blob([exportRecord()], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `makhos-${new Date().toISOString().slice(0, 10)}.pdn`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Imported games are replayed through the rules and continue as a hot-seat game, so both sides can be played on
+  const importRecord = (text: string) => {
+    let parsed: ReturnType<typeof parsePdn>;
+    try {
+      parsed = parsePdn(text);
+    } catch (error) {
+      setRecordMessage({ text: error instanceof NotationError ? error.message : 'Could not read the record', isError: true });
+      return;
+    }
+
+    const { game, positions } = parsed;
+    const rules = game.start.variant ?? DEFAULT_VARIANT;
+    resetGame(difficulty, rules, 'human');
+    setVariant(rules);
+    setOpponent('human');
+    restorePly({ positions, moves: game.moves, ply: game.moves.length }, true);
+    setImportText(null);
+    setRecordMessage({ text: `Imported ${game.moves.length} moves`, isError: false });
+    console.log(`📥 IMPORTED: ${game.moves.length} moves, ${VARIANTS[rules].label} rules`);
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (file) importRecord(await file.text());
+  };
+
+  // Post-game review - the expert search scores every move of each position with evaluateBoard, noise-free
+  const analyseGame = async () => {
+    const moves = history.moves.slice(0, history.ply);
+    const reviews: PlyReview<Move>[] = [];
+    console.log(`🔍 ANALYSING ${moves.length} plies (${ANALYSIS_BUDGET_MS}ms each)`);
+    setReview(null);
+    setAnalysedPlies(0);
+
+    for (let at = 0; at < moves.length; at++) {
+      const position = history.positions[at];
+      const search = await searchClient.searchMakhos({
+        board: position.board,
+        difficulty: 'expert',
+        variant: position.variant,
+        side: position.turn,
+        budgetMs: ANALYSIS_BUDGET_MS
+      });
+      if (!search) {
+        // Cancelled by a new game or a take-back
+        setAnalysedPlies(null);
+        return;
+      }
+      reviews.push(reviewMakhosPly(at, search.evaluations, moves[at], position.turn));
+      setAnalysedPlies(at + 1);
+    }
+
+    const offLine = reviews.filter(entry => humanMoves(entry.ply) && entry.quality !== 'best').length;
+    console.log(`🔍 ANALYSIS DONE: ${offLine} moves off the engine's line`);
+    setReview(reviews);
+    setAnalysedPlies(null);
+  };
+
+  // The editor opens on the board in play, with the side that is to move
+  const openEditor = () => {
+    clearSelection();
+    setSuggestion(null);
+    setHintReason(null);
+    updateSetup({ board, turn: isHotSeat ? turn : isPlayerTurn ? playerColor : aiColor, variant });
+  };
+
+  const loadSetupText = () => {
+    try {
+      updateSetup(parseSetup(setupText, variant));
+    } catch (error) {
+      setSetupMessage(error instanceof NotationError ? error.message : 'Could not read the position');
+    }
+  };
+
+  // Starts a game against the AI from the edited position - the player keeps their colour
+  const playFromSetup = () => {
+    if (!setup) return;
+    const problem = setupError(setup);
+    if (problem) {
+      setSetupMessage(problem);
+      return;
+    }
+
+    console.log(`🧩 PLAY FROM SETUP: ${toPositionString(setup)}`);
+    setOpponent('ai');
+    resetGame(difficulty, variant, 'ai', playerColor, setup);
+  };
+
+  // The spectator match has ended on ply `at` - matchHistory always belongs to its last ply
+  const matchOver = (current: Match, at: number): boolean => {
+    if (at < current.moves.length) return false;
+    const position = current.positions[at];
+    return result(position) !== null || drawReason(position, matchHistory.current) !== null;
+  };
+
+  // One ply forward from `at` - replays a recorded ply, or asks the agent on move for a new one.
+  // Resolves with the match and ply now shown, or null once the match is over or the search was cancelled
+  const advanceMatch = async (current: Match, at: number, players: Record<Color, Agent>): Promise<[Match, number] | null> => {
+    if (at < current.moves.length) {
+      setPly(at + 1);
+      return [current, at + 1];
+    }
+    if (matchOver(current, at)) return null;
+
+    const position = current.positions[at];
+    const agent = players[position.turn];
+    let move: Move | null;
+    if (agent === 'random') {
+      move = randomMove(position);
+    } else {
+      setIsThinking(true);
+      const search = await searchClient.searchMakhos(
+        { board: position.board, difficulty: agent, variant: position.variant, side: position.turn },
+        setSearchProgress
+      );
+      if (!search) return null;
+      setSearchProgress(null);
+      setIsThinking(false);
+      move = search.move;
+      console.log(`🔍 ${agentLabel(agent)}: depth ${search.depth}, score ${search.score}, ${search.nodes.toLocaleString()} nodes`);
+    }
+    if (!move) return null;
+
+    const after = applyMove(position, move);
+    matchHistory.current = extendHistory(matchHistory.current, position, move, after);
+    const extended = extendMatch(current, move, after);
+    setMatch(extended);
+    setPly(at + 1);
+    console.log(`🍿 ${COLOR_NAMES[position.turn]} (${agentLabel(agent)}): ${[move.from, ...move.path].map(formatSquare).join(' → ')}`);
+
+    const winner = result(after);
+    const reason = winner ? null : drawReason(after, matchHistory.current);
+    if (winner) console.log(`🏁 MATCH OVER: ${COLOR_NAMES[winner]} (${agentLabel(players[winner])}) WINS`);
+    if (reason) console.log(`🏁 MATCH OVER: ${DRAW_REASONS[reason]}`);
+    setMatchDraw(reason);
+    return [extended, at + 1];
+  };
+
+  // Playback - one ply per delay until paused (cancelAi) or the match ends
+  const playMatch = (
+    current: Match,
+    at: number,
+    players: Record<Color, Agent> = agents,
+    delay: number = PLAYBACK_SPEEDS[speed].delayMs
+  ) => {
+    setIsPlaying(true);
+    schedule(async () => {
+      const next = await advanceMatch(current, at, players);
+      if (next && !matchOver(...next)) {
+        playMatch(next[0], next[1], players, delay);
+      } else {
+        setIsPlaying(false);
+      }
+    }, delay);
+  };
+
+  const pauseMatch = () => {
+    cancelAi();
+    setIsThinking(false);
+    setIsPlaying(false);
+  };
+
+  const startSpectatorMatch = (players: Record<Color, Agent> = agents, rules: Variant = variant) => {
+    console.log(`🍿 Spectator match - ${agentLabel(players.B)} (Black) vs ${agentLabel(players.W)} (White)`);
+    const fresh = startMatch<Position, Move>(initialPosition('B', rules));
+    matchHistory.current = [positionKey(fresh.positions[0])];
+    setMatch(fresh);
+    setPly(0);
+    setMatchDraw(null);
+    playMatch(fresh, 0, players);
+  };
+
+  // A different agent on either side starts a new match
+  const changeAgent = (color: Color, agent: Agent) => {
+    if (agents[color] === agent) return;
+    const players = { ...agents, [color]: agent };
+    setAgents(players);
+    pauseMatch();
+    startSpectatorMatch(players);
+  };
+
+  // A running match picks up the new delay from the next ply
+  const changeSpeed = (option: PlaybackSpeed) => {
+    setSpeed(option);
+    if (!isPlaying) return;
+    pauseMatch();
+    playMatch(match, ply, agents, PLAYBACK_SPEEDS[option].delayMs);
+  };
+
+  // Stepping pauses playback; Play carries on from the shown ply, replaying recorded plies first
+  const stepBack = () => {
+    pauseMatch();
+    setPly(Math.max(0, ply - 1));
+  };
+
+  const stepForward = () => {
+    if (isThinking) return;
+    pauseMatch();
+    advanceMatch(match, ply, agents);
+  };
+
+  const jumpTo = (target: number) => {
+    pauseMatch();
+    setPly(target);
+  };
+
+  // Barron AI's pick for the human on move - the side to move in hot-seat - highlighted with its reasoning, never played
+  const suggestMove = async () => {
+    if (gameStatus !== 'playing' || !isPlayerTurn || isThinking || hintPending || chainPath.length > 0) return;
+
+    setHintPending(true);
+    const search = await searchClient.searchMakhos({ board, difficulty: 'expert', variant, side: mover }, setSearchProgress);
+    setHintPending(false);
+    setSearchProgress(null);
+    if (!search?.move) return;
+
+    const move = search.move;
+    console.log(`💡 Suggestion for ${COLOR_NAMES[mover]}: ${[move.from, ...move.path].map(formatSquare).join(' → ')}`);
+    setSuggestion(move);
+    setHintReason(describeHint(search));
+  };
+
+  // A new level starts a new game so every result lands on the right score line
+  const changeDifficulty = (level: Difficulty) => {
+    if (level === difficulty) return;
+    setDifficulty(level);
+    resetGame(level);
+  };
+
+  // Switching rules mid-game would change which moves were legal, so it starts a new game too
+  const changeVariant = (rules: Variant) => {
+    if (rules === variant) return;
+    setVariant(rules);
+    resetGame(difficulty, rules);
+  };
+
+  // What the spectator panel says about the position on the board
+  const matchStatus = (): string => {
+    const position = match.positions[ply];
+    const winner = result(position);
+    if (winner) return `${COLOR_NAMES[winner]} · ${agentLabel(agents[winner])} wins`;
+    if (ply === match.moves.length && matchDraw) return `Draw - ${DRAW_REASONS[matchDraw]}`;
+    const thinking = isThinking && ply === match.moves.length;
+    return `${COLOR_NAMES[position.turn]} · ${agentLabel(agents[position.turn])} ${thinking ? 'is thinking...' : 'to move'}${thinking && searchProgress ? ` depth ${searchProgress.depth}` : ''}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-black">
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl md:text-5xl font-black text-slate-900 dark:text-white mb-2">
+            หมากฮอสไทย vs Barron AI
+          </h1>
+          <p className="text-slate-600 dark:text-slate-400 mb-4">กินหมากฝ่ายตรงข้ามให้หมดเพื่อชนะ • Invincible 2 Style</p>
+          <div className="flex gap-4 justify-center flex-wrap">
+            <Link 
+              href="/"
+              className="inline-flex items-center gap-2 px-6 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-semibold rounded-lg hover:bg-slate-800 dark:hover:bg-slate-100 transition-colors duration-200 cursor-pointer"
+            >
+              <span>Tic-Tac-Toe Mode</span>
+            </Link>
+            <Link 
+              href="/five-in-a-row"
+              className="inline-flex items-center gap-2 px-6 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-semibold rounded-lg hover:bg-slate-800 dark:hover:bg-slate-100 transition-colors duration-200 cursor-pointer"
+            >
+              <span>Gomoku Mode</span>
+            </Link>
+            <a 
+              href="https://barronai.vercel.app/" 
+              target="_blank" 
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-2 px-6 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-semibold rounded-lg hover:bg-slate-800 dark:hover:bg-slate-100 transition-colors duration-200 cursor-pointer"
+            >
+              <span>Visit Barron AI</span>
+            </a>
+          </div>
+
+          <div className="mt-6">
+            <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+              {(Object.keys(OPPONENT_LABELS) as Opponent[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => changeOpponent(option)}
+                  className={`
+                    px-4 py-1.5 text-sm font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                    ${option === opponent ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                  `}
+                >
+                  {OPPONENT_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {opponent === 'ai' && (
+            <div className="mt-3 inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+              {DIFFICULTY_LEVELS.map(level => (
+                <button
+                  key={level}
+                  onClick={() => changeDifficulty(level)}
+                  className={`
+                    px-4 py-1.5 text-sm font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                    ${level === difficulty ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                  `}
+                >
+                  {DIFFICULTIES[level].label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {opponent === 'ai' && (
+            <div className="mt-3 flex items-center justify-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+              <span>เล่นฝ่าย</span>
+              <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+                {(['B', 'W'] as Color[]).map(color => (
+                  <button
+                    key={color}
+                    onClick={() => changeColor(color)}
+                    className={`
+                      px-3 py-1 text-xs font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                      ${color === playerColor ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                    `}
+                  >
+                    {COLOR_NAMES[color]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {!isWatching && (
+            <div className="mt-3 flex items-center justify-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+              <span>ขอคืนหมาก</span>
+              <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+                {[true, false].map(allowed => (
+                  <button
+                    key={String(allowed)}
+                    onClick={() => changeTakeBacks(allowed)}
+                    className={`
+                      px-3 py-1 text-xs font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                      ${allowed === takeBacks ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                    `}
+                  >
+                    {allowed ? 'ได้' : 'ไม่ได้ (rated)'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {assistAllowed && (
+            <div className="mt-3 flex items-center justify-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+              <span>แถบประเมิน</span>
+              <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+                {[true, false].map(shown => (
+                  <button
+                    key={String(shown)}
+                    onClick={() => setShowEvalBar(shown)}
+                    className={`
+                      px-3 py-1 text-xs font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                      ${shown === showEvalBar ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                    `}
+                  >
+                    {shown ? 'แสดง' : 'ซ่อน'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {isWatching && (
+            <div className="mt-3 flex flex-col items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+              {(['B', 'W'] as Color[]).map(color => (
+                <div key={color} className="flex items-center gap-2">
+                  <span>{SHORT_COLOR_NAMES[color]}</span>
+                  <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+                    {AGENT_LIST.map(agent => (
+                      <button
+                        key={agent}
+                        onClick={() => changeAgent(color, agent)}
+                        className={`
+                          px-3 py-1 text-xs font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                          ${agent === agents[color] ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                        `}
+                      >
+                        {agentLabel(agent)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <span>ความเร็ว</span>
+                <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+                  {PLAYBACK_SPEED_LIST.map(option => (
+                    <button
+                      key={option}
+                      onClick={() => changeSpeed(option)}
+                      className={`
+                        px-3 py-1 text-xs font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                        ${option === speed ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                      `}
+                    >
+                      {PLAYBACK_SPEEDS[option].label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="mt-3 flex items-center justify-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+            <span>กติกา</span>
+            <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+              {VARIANT_NAMES.map(rules => (
+                <button
+                  key={rules}
+                  onClick={() => changeVariant(rules)}
+                  className={`
+                    px-3 py-1 text-xs font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                    ${rules === variant ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                  `}
+                >
+                  {VARIANTS[rules].label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="max-w-4xl mx-auto grid lg:grid-cols-2 gap-6">
+          <div>
+            {/* White's share of the bar, clamped at a king either way */}
+            {shownEvaluation !== null && (
+              <div className="mb-3">
+                <div className="flex h-3 rounded-full overflow-hidden bg-slate-900 border border-slate-300 dark:border-slate-600">
+                  <div className="bg-white transition-all duration-500" style={{ width: `${barShare(shownEvaluation, EVAL_RANGE) * 100}%` }} />
+                </div>
+                <p className="mt-1 text-xs text-center text-slate-500 dark:text-slate-400 tabular-nums">
+                  {Math.abs(shownEvaluation) < LEVEL_WITHIN ? 'เท่ากัน' : `${SHORT_COLOR_NAMES[shownEvaluation > 0 ? 'W' : 'B']} ได้เปรียบ ${formatScore(Math.abs(shownEvaluation))}`}
+                </p>
+              </div>
+            )}
+            <div className="bg-amber-900 dark:bg-amber-950 rounded-xl p-4 border-4 border-amber-800 shadow-2xl">
+              <div 
+                className="grid gap-0 mx-auto"
+                style={{ 
+                  gridTemplateColumns: 'repeat(8, minmax(0, 1fr))',
+                  maxWidth: '400px',
+                  background: 'linear-gradient(135deg, #d4a574 0%, #c9984a 100%)'
+                }}
+              >
+                {shownBoard.map((_, square) => {
+                  const index = flipped ? 63 - square : square;
+                  const piece = shownBoard[index];
+                  const [row, col] = getPosition(index);
+                  const isPlayable = isValidSquare(row, col);
+                  const isSelected = selectedPiece === index;
+                  const isValidMove = validMoves.includes(index);
+                  const mustCapture = !isWatching && !setup && mustCaptureFrom.includes(index);
+                  const isLastMove = lastMatchMove !== null && (lastMatchMove.from === index || lastMatchMove.path.includes(index));
+                  const isSuggested = suggestion !== null && (suggestion.from === index || suggestion.path.includes(index));
+                  // The engine's move in green and a weaker move played instead in red
+                  const isEngineMove = reviewed !== null && (reviewed.best.from === index || reviewed.best.path.includes(index));
+                  const isWeakMove = reviewed !== null && reviewed.quality !== 'best' && (reviewed.played.from === index || reviewed.played.path.includes(index));
+
+                  return (
+                    <div
+                      key={index}
+                      onClick={() => handleSquareClick(index)}
+                      className={`
+                        aspect-square flex items-center justify-center transition-all duration-200 cursor-pointer
+                        ${isPlayable ? 'bg-amber-700/40' : 'bg-amber-900/80'}
+                        ${isSelected ? 'ring-4 ring-blue-400 ring-inset' : ''}
+                        ${isValidMove ? 'ring-4 ring-green-400 ring-inset' : ''}
+                        ${mustCapture ? 'ring-4 ring-yellow-400 ring-inset animate-pulse' : ''}
+                        ${isSuggested ? 'ring-4 ring-emerald-400 ring-inset' : ''}
+                        ${isLastMove ? 'ring-4 ring-amber-400 ring-inset' : ''}
+                        ${isEngineMove ? 'ring-4 ring-emerald-400 ring-inset' : ''}
+                        ${isWeakMove ? 'ring-4 ring-red-400 ring-inset' : ''}
+                      `}
+                    >
+                      {piece && (
+                        <div className={`
+                          w-3/4 h-3/4 rounded-full flex items-center justify-center text-2xl font-bold shadow-lg
+                          ${piece[0] === 'B' ? 'bg-slate-900 text-white' : 'bg-white text-slate-900'}
+                        `}>
+                          {piece[1] === 'K' ? '♔' : '●'}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {isWatching ? (
+              <div className="flex gap-2 justify-center flex-wrap mt-6">
+                <button onClick={() => jumpTo(0)} disabled={ply === 0} className="px-4 py-2.5 bg-slate-600 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition-all cursor-pointer">
+                  ⏮
+                </button>
+                <button onClick={stepBack} disabled={ply === 0} className="px-4 py-2.5 bg-slate-600 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition-all cursor-pointer">
+                  ◀ Back
+                </button>
+                <button
+                  onClick={() => (isPlaying ? pauseMatch() : playMatch(match, ply))}
+                  disabled={!isPlaying && matchOver(match, ply)}
+                  className="px-4 py-2.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition-all cursor-pointer"
+                >
+                  {isPlaying ? '⏸ Pause' : '▶ Play'}
+                </button>
+                <button onClick={stepForward} disabled={isThinking || matchOver(match, ply)} className="px-4 py-2.5 bg-slate-600 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition-all cursor-pointer">
+                  Step ▶
+                </button>
+                <button onClick={() => resetGame()} className="px-4 py-2.5 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition-all cursor-pointer">
+                  New Match
+                </button>
+              </div>
+            ) : setup ? (
+              <div className="mt-6 bg-white dark:bg-slate-800 rounded-xl p-4 border border-slate-200 dark:border-slate-700 space-y-3">
+                <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">ตั้งหมาก - Position Setup</p>
+                <div className="flex items-center gap-2 flex-wrap">
+                  {(['BP', 'BK', 'WP', 'WK', null] as Piece[]).map(piece => (
+                    <button
+                      key={piece ?? 'erase'}
+                      onClick={() => setSetupPiece(piece)}
+                      title={piece ? `${COLOR_NAMES[piece[0] as Color]} ${piece[1] === 'K' ? 'king' : 'man'}` : 'Remove'}
+                      className={`w-10 h-10 rounded-lg flex items-center justify-center cursor-pointer ${piece === setupPiece ? 'ring-2 ring-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'bg-amber-700/40'}`}
+                    >
+                      {piece ? (
+                        <span className={`w-7 h-7 rounded-full flex items-center justify-center text-base font-bold shadow ${piece[0] === 'B' ? 'bg-slate-900 text-white' : 'bg-white text-slate-900'}`}>
+                          {piece[1] === 'K' ? '♔' : '●'}
+                        </span>
+                      ) : '✕'}
+                    </button>
+                  ))}
+                  <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1 ml-auto">
+                    {(['B', 'W'] as Color[]).map(color => (
+                      <button
+                        key={color}
+                        onClick={() => updateSetup({ ...setup, turn: color })}
+                        className={`
+                          px-3 py-1 text-xs font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                          ${color === setup.turn ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                        `}
+                      >
+                        {SHORT_COLOR_NAMES[color]} เดิน
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    value={setupText}
+                    onChange={event => setSetupText(event.target.value)}
+                    spellCheck={false}
+                    className="flex-1 min-w-0 px-2 py-1.5 text-xs font-mono rounded-md border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100"
+                  />
+                  <button onClick={loadSetupText} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors cursor-pointer">
+                    Load
+                  </button>
+                </div>
+                <div className="flex gap-2 flex-wrap">
+                  <button onClick={() => updateSetup({ ...setup, board: Array(64).fill(null) })} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors cursor-pointer">
+                    Clear
+                  </button>
+                  <button onClick={() => updateSetup(initialPosition(setup.turn, variant))} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors cursor-pointer">
+                    Starting position
+                  </button>
+                  <button onClick={() => setSetup(null)} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors cursor-pointer">
+                    Cancel
+                  </button>
+                  <button onClick={playFromSetup} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-blue-600 hover:bg-blue-700 text-white transition-colors cursor-pointer ml-auto">
+                    Play from here vs AI
+                  </button>
+                </div>
+                {setupMessage && <p className="text-xs text-red-600 dark:text-red-400">{setupMessage}</p>}
+              </div>
+            ) : (
+              <div className="flex gap-3 justify-center flex-wrap mt-6">
+                <button
+                  onClick={() => resetGame()}
+                  className="px-6 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-semibold transition-all cursor-pointer"
+                >
+                  New Game
+                </button>
+                {takeBacks && (
+                  <>
+                    <button onClick={undo} disabled={undoTarget(history, humanMoves) === null} className="px-6 py-2.5 bg-slate-600 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition-all cursor-pointer">
+                      ↩ Undo
+                    </button>
+                    <button onClick={redo} disabled={redoTarget(history, humanMoves) === null} className="px-6 py-2.5 bg-slate-600 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition-all cursor-pointer">
+                      Redo ↪
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={offerDraw}
+                  disabled={gameStatus !== 'playing' || !isPlayerTurn || isThinking || chainPath.length > 0 || drawDeclined}
+                  className="px-6 py-2.5 bg-amber-600 hover:bg-amber-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition-all cursor-pointer"
+                >
+                  {isHotSeat ? 'Agree Draw' : 'Offer Draw'}
+                </button>
+                <button
+                  onClick={openEditor}
+                  disabled={isThinking}
+                  className="px-6 py-2.5 bg-slate-600 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition-all cursor-pointer"
+                >
+                  Setup
+                </button>
+                {assistAllowed && (
+                  <button
+                    onClick={suggestMove}
+                    disabled={gameStatus !== 'playing' || !isPlayerTurn || isThinking || hintPending || chainPath.length > 0}
+                    className="px-6 py-2.5 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition-all cursor-pointer"
+                  >
+                    Hint
+                  </button>
+                )}
+                <button
+                  onClick={resetStats}
+                  className="px-6 py-2.5 bg-slate-600 hover:bg-slate-700 text-white rounded-lg font-semibold transition-all cursor-pointer"
+                >
+                  Reset Stats
+                </button>
+              </div>
+            )}
+
+            {!isWatching && hintReason && (
+              <p className="mt-4 text-sm text-center font-medium text-emerald-700 dark:text-emerald-400">💡 {hintReason}</p>
+            )}
+
+            {/* Move list - plies after the shown one are greyed out until they are redone or replaced */}
+            {!isWatching && history.moves.length > 0 && (
+              <div className="mt-6 bg-white dark:bg-slate-800 rounded-xl p-4 border border-slate-200 dark:border-slate-700">
+                <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">Moves</p>
+                <div className="flex flex-wrap gap-1.5 max-h-48 overflow-y-auto">
+                  {history.moves.map((move, index) => (
+                    <span
+                      key={index}
+                      className={`
+                        px-2 py-1 text-xs font-semibold rounded-md tabular-nums
+                        ${index + 1 === history.ply ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : index < history.ply ? 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300' : 'text-slate-400 dark:text-slate-500 line-through'}
+                      `}
+                    >
+                      {index + 1}. {SHORT_COLOR_NAMES[history.positions[index].turn]} {formatMove(move, history.positions[index].board, history.positions[index + 1].board)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Game record - PDN export and import */}
+            {!isWatching && (
+              <div className="mt-6 bg-white dark:bg-slate-800 rounded-xl p-4 border border-slate-200 dark:border-slate-700 space-y-3">
+                <div className="flex items-center justify-between gap-2 flex-wrap">
+                  <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">บันทึกเกม (PDN)</p>
+                  <div className="flex gap-2">
+                    <button onClick={copyRecord} className="px-3 py-1 text-xs font-semibold rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors cursor-pointer">
+                      Copy
+                    </button>
+                    <button onClick={downloadRecord} className="px-3 py-1 text-xs font-semibold rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors cursor-pointer">
+                      Download
+                    </button>
+                    <button onClick={() => setImportText(importText === null ? '' : null)} className="px-3 py-1 text-xs font-semibold rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors cursor-pointer">
+                      Import
+                    </button>
+                  </div>
+                </div>
+                {importText !== null && (
+                  <div className="space-y-2">
+                    <textarea
+                      value={importText}
+                      onChange={event => setImportText(event.target.value)}
+                      placeholder={'[GameType "31"]\n\n1. 6-10 27-23 2. ...'}
+                      rows={5}
+                      className="w-full p-2 text-xs font-mono rounded-md border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100"
+                    />
+                    <div className="flex gap-2 items-center">
+                      <button onClick={() => importRecord(importText)} className="px-3 py-1 text-xs font-semibold rounded-md bg-blue-600 hover:bg-blue-700 text-white transition-colors cursor-pointer">
+                        Load
+                      </button>
+                      <label className="px-3 py-1 text-xs font-semibold rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors cursor-pointer">
+                        From file…
+                        <input type="file" accept=".pdn,.txt" className="hidden" onChange={event => importFile(event.target.files?.[0])} />
+                      </label>
+                    </div>
+                  </div>
+                )}
+                {recordMessage && (
+                  <p className={`text-xs ${recordMessage.isError ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`}>{recordMessage.text}</p>
+                )}
+              </div>
+            )}
+
+            {/* Post-game analysis */}
+            {!isWatching && !setup && gameStatus !== 'playing' && history.ply > 0 && (
+              <div className="mt-6 bg-white dark:bg-slate-800 rounded-xl p-4 border border-slate-200 dark:border-slate-700 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">วิเคราะห์เกม</p>
+                  <button
+                    onClick={analyseGame}
+                    disabled={analysedPlies !== null}
+                    className="px-3 py-1 text-xs font-semibold rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed text-white transition-colors cursor-pointer"
+                  >
+                    {analysedPlies !== null ? `Analysing ${analysedPlies}/${history.ply}…` : review ? 'Analyse Again' : 'Analyse Game'}
+                  </button>
+                </div>
+                {review && (
+                  <>
+                    {/* Score after each ply from White's side, clamped at a king either way */}
+                    <svg viewBox="0 0 300 60" className="w-full h-16 rounded-md bg-slate-50 dark:bg-slate-900">
+                      <line x1="0" y1="30" x2="300" y2="30" className="stroke-slate-300 dark:stroke-slate-600" strokeDasharray="4 4" />
+                      <polyline
+                        points={graphPoints(review.map(entry => entry.evaluation), 300, 60, EVAL_RANGE)}
+                        fill="none"
+                        className="stroke-blue-500"
+                        strokeWidth={2}
+                      />
+                    </svg>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">บน: {SHORT_COLOR_NAMES.W} ได้เปรียบ · ล่าง: {SHORT_COLOR_NAMES.B} ได้เปรียบ</p>
+                    <div className="space-y-1 max-h-64 overflow-y-auto">
+                      {review.filter(entry => humanMoves(entry.ply)).map(entry => (
+                        <button
+                          key={entry.ply}
+                          onClick={() => setReviewPly(reviewPly === entry.ply ? null : entry.ply)}
+                          className={`
+                            w-full flex items-center justify-between gap-2 px-2 py-1 text-xs rounded-md tabular-nums transition-colors cursor-pointer
+                            ${entry.ply === reviewPly ? 'bg-slate-100 dark:bg-slate-700' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'}
+                          `}
+                        >
+                          <span className="font-semibold text-slate-900 dark:text-white">
+                            {entry.ply + 1}. {SHORT_COLOR_NAMES[history.positions[entry.ply].turn]} {formatMove(entry.played, history.positions[entry.ply].board, history.positions[entry.ply + 1].board)}
+                            <span className={`ml-1 ${QUALITY_COLOURS[entry.quality]}`}>{QUALITIES[entry.quality].symbol}</span>
+                          </span>
+                          <span className="text-slate-500 dark:text-slate-400">
+                            {entry.quality === 'best' ? QUALITIES.best.label : `${QUALITIES[entry.quality].label} - best ${formatPdnMove(entry.best)}`}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">กดที่ตาเดินเพื่อดูตำแหน่งก่อนเดิน - ตาเดินของ AI เป็นกรอบสีเขียว</p>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            {isWatching ? (
+              <div className="bg-white dark:bg-slate-800 rounded-xl p-5 border border-slate-200 dark:border-slate-700 space-y-4">
+                <div className="flex justify-between items-center gap-3 pb-3 border-b border-slate-200 dark:border-slate-700">
+                  <span className="text-sm font-semibold text-slate-900 dark:text-white">
+                    {SHORT_COLOR_NAMES.B} · {agentLabel(agents.B)} vs {SHORT_COLOR_NAMES.W} · {agentLabel(agents.W)}
+                  </span>
+                  <span className="text-xs text-slate-600 dark:text-slate-400 tabular-nums">Ply {ply}/{match.moves.length}</span>
+                </div>
+                <p className="text-base font-semibold text-center text-slate-900 dark:text-white">{matchStatus()}</p>
+                {/* Every recorded ply - click one to show the board after it */}
+                {match.moves.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5 max-h-48 overflow-y-auto">
+                    {match.moves.map((move, index) => (
+                      <button
+                        key={index}
+                        onClick={() => jumpTo(index + 1)}
+                        className={`
+                          px-2 py-1 text-xs font-semibold rounded-md tabular-nums transition-colors duration-200 cursor-pointer
+                          ${index + 1 === ply ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'}
+                        `}
+                      >
+                        {index + 1}. {formatMove(move, match.positions[index].board, match.positions[index + 1].board)}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="bg-white dark:bg-slate-800 rounded-xl p-5 border border-slate-200 dark:border-slate-700">
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="text-center">
+                      <div className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase mb-2">{isHotSeat ? COLOR_NAMES.B : `You (${SHORT_COLOR_NAMES[playerColor]})`}</div>
+                      <div className="text-3xl font-bold text-slate-900 dark:text-white">{playerScore}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase mb-2">Draws</div>
+                      <div className="text-3xl font-bold text-slate-900 dark:text-white">{draws}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase mb-2">{isHotSeat ? COLOR_NAMES.W : `AI (${SHORT_COLOR_NAMES[aiColor]})`}</div>
+                      <div className="text-3xl font-bold text-slate-900 dark:text-white">{aiScore}</div>
+                    </div>
+                  </div>
+                  <div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700 space-y-2">
+                    {isHotSeat && (
+                      <p className="text-sm text-center text-slate-600 dark:text-slate-400">Hot-seat games are counted apart from games against Barron AI</p>
+                    )}
+                    {!isHotSeat && DIFFICULTY_LEVELS.map(level => (
+                      <div key={level} className="flex justify-between items-center text-sm">
+                        <span className={level === difficulty ? 'font-semibold text-slate-900 dark:text-white' : 'text-slate-600 dark:text-slate-400'}>
+                          {DIFFICULTIES[level].label}
+                        </span>
+                        <span className="font-semibold text-slate-900 dark:text-white tabular-nums">
+                          {scores[level].playerScore} - {scores[level].draws} - {scores[level].aiScore}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="bg-white dark:bg-slate-800 rounded-xl p-6 border border-slate-200 dark:border-slate-700">
+                  <div className="text-center">
+                    {gameStatus === 'playing' && (
+                      <div className="space-y-4">
+                        {isPlayerTurn && !isThinking ? (
+                          <>
+                            <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-blue-50 dark:bg-blue-900/20 border-2 border-blue-500 dark:border-blue-400">
+                              <svg className="w-6 h-6 text-blue-600 dark:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                              </svg>
+                            </div>
+                            <div>
+                              <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1">{isHotSeat ? `${COLOR_NAMES[mover]} to move` : 'Your Turn'}</p>
+                              <p className="text-base font-semibold text-slate-900 dark:text-white">Make your move</p>
+                              {drawDeclined && (
+                                <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Barron AI declined your draw offer</p>
+                              )}
+                            </div>
+                          </>
+                        ) : (
+                          <>
+                            <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-slate-50 dark:bg-slate-700/50 border-2 border-slate-300 dark:border-slate-600">
+                              <svg className="w-6 h-6 text-slate-600 dark:text-slate-400 animate-spin" fill="none" viewBox="0 0 24 24">
+                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                              </svg>
+                            </div>
+                            <div>
+                              <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1">AI Turn</p>
+                              <p className="text-base font-semibold text-slate-900 dark:text-white">
+                                Calculating...{searchProgress && ` depth ${searchProgress.depth} · ${searchProgress.completed}/${searchProgress.total}`}
+                              </p>
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    )}
+                    {gameStatus === 'draw' && (
+                      <div className="space-y-4">
+                        <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-amber-50 dark:bg-amber-900/20 border-2 border-amber-500 dark:border-amber-400">
+                          <svg className="w-6 h-6 text-amber-600 dark:text-amber-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+                          </svg>
+                        </div>
+                        <div>
+                          <p className="text-xs font-medium text-amber-600 dark:text-amber-400 uppercase tracking-wider mb-1">Draw</p>
+                          <p className="text-base font-semibold text-slate-900 dark:text-white">
+                            {drawBy === 'agreement' ? 'Draw agreed' : drawBy ? DRAW_REASONS[drawBy] : 'Draw'}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+                    {gameStatus === 'player-win' && (
+                      <div className="space-y-4">
+                        <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-green-50 dark:bg-green-900/20 border-2 border-green-500 dark:border-green-400">
+                          <svg className="w-6 h-6 text-green-600 dark:text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                          </svg>
+                        </div>
+                        <div>
+                          <p className="text-xs font-medium text-green-600 dark:text-green-400 uppercase tracking-wider mb-1">{isHotSeat ? 'Game Over' : 'Victory'}</p>
+                          <p className="text-base font-semibold text-slate-900 dark:text-white">{isHotSeat ? `${COLOR_NAMES.B} wins!` : 'You won!'}</p>
+                        </div>
+                      </div>
+                    )}
+                    {gameStatus === 'ai-win' && (
+                      <div className="space-y-4">
+                        <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-red-50 dark:bg-red-900/20 border-2 border-red-500 dark:border-red-400">
+                          <svg className="w-6 h-6 text-red-600 dark:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </div>
+                        <div>
+                          <p className="text-xs font-medium text-red-600 dark:text-red-400 uppercase tracking-wider mb-1">{isHotSeat ? 'Game Over' : 'Defeat'}</p>
+                          <p className="text-base font-semibold text-slate-900 dark:text-white">{isHotSeat ? `${COLOR_NAMES.W} wins!` : 'AI won'}</p>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+
+            <div className="bg-blue-50 dark:bg-blue-900/20 rounded-xl p-4 border border-blue-200 dark:border-blue-800">
+              <p className="text-sm text-blue-900 dark:text-blue-100">
+                <strong>วิธีเล่น</strong><br/>
+                • คลิกเลือกหมากของคุณ ({SHORT_COLOR_NAMES[mover]})<br/>
+                • คลิกช่องสีเขียวเพื่อเดิน<br/>
+                • กินหมากฝ่ายตรงข้ามให้หมดเพื่อชนะ<br/>
+                • เบี้ยถึงแถวสุดท้ายจะกลายเป็นฮอส (♔)<br/>
+                {variantRules.flyingKings
+                  ? <>• ฮอสเดินได้ไกลตามแนวทแยง และกินจากระยะไกล{variantRules.kingLandsAnywhere ? 'โดยลงช่องว่างใดก็ได้หลังตัวที่ถูกกิน' : 'โดยลงช่องถัดจากตัวที่ถูกกิน'}<br/></>
+                  : <>• ฮอสเดินและกินได้ทีละช่อง<br/></>}
+                {variantRules.menCaptureBackward && <>• เบี้ยกินถอยหลังได้ (แต่เดินหน้าอย่างเดียว)<br/></>}
+                {variantRules.maximumCapture && <>• ต้องเลือกทางที่กินได้มากที่สุด<br/></>}
+                {variantRules.promotionEndsChain
+                  ? <>• เบี้ยที่เข้าฮอสระหว่างกินต้องหยุดทันที<br/></>
+                  : <>• เบี้ยที่เข้าฮอสระหว่างกินจะกินต่อในฐานะฮอส<br/></>}
+                • สามารถกินต่อเนื่องหลายตัวได้
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,57 +1,380 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import Link from 'next/link';
+import {
+  type Board,
+  type BoardSize,
+  type Difficulty,
+  type Agent,
+  type MoveAnalysis,
+  type Player,
+  type Side,
+  AGENTS,
+  AGENT_LIST,
+  BOARD_SIZES,
+  BOARD_SIZE_LIST,
+  DIFFICULTIES,
+  DIFFICULTY_LEVELS,
+  checkWinner,
+  createBoard,
+  isBoardFull,
+  getAvailableMoves,
+  opponentOf
+} from '@/lib/tictactoe';
+import {
+  type UltimateMove,
+  type UltimateState,
+  createUltimate,
+  isClosed,
+  isUltimateOver,
+  legalUltimateMoves,
+  playUltimate,
+  ultimateWinner
+} from '@/lib/ultimate';
+import {
+  type GameHistory,
+  type MatchRecord,
+  type PlaybackSpeed,
+  PLAYBACK_SPEEDS,
+  PLAYBACK_SPEED_LIST,
+  dropRedo,
+  extendMatch,
+  recordPly,
+  redoTarget,
+  startHistory,
+  startMatch,
+  undoTarget
+} from '@/lib/match';
+import { NotationError, cellName, formatTicTacToe, parseTicTacToe } from '@/lib/notation';
+import {
+  type MoveQuality,
+  type TicTacToeReview,
+  QUALITIES,
+  barShare,
+  graphPoints,
+  reviewTicTacToePly,
+  ticTacToeEvaluation
+} from '@/lib/analysis';
+import { SearchClient } from '@/lib/search-client';
 
-type Player = 'X' | 'O' | null;
-type Board = Player[];
-
-interface MoveAnalysis {
-  position: number;
-  score: number;
-  reasoning: string;
-  winningMove: boolean;
-  blockingMove: boolean;
-  strategicValue: number;
+interface ScoreLine {
+  playerScore: number;
+  aiScore: number;
+  draws: number;
 }
 
-const WINNING_COMBINATIONS = [
-  [0, 1, 2], [3, 4, 5], [6, 7, 8], // rows
-  [0, 3, 6], [1, 4, 7], [2, 5, 8], // columns
-  [0, 4, 8], [2, 4, 6] // diagonals
-];
+type LevelScores = Record<Difficulty, ScoreLine>;
+
+// The m,n,k boards plus the nine-board ultimate game
+type Mode = BoardSize | 'ultimate';
+
+const MODES: Mode[] = [...BOARD_SIZE_LIST, 'ultimate'];
+
+const modeLabel = (mode: Mode): string => (mode === 'ultimate' ? 'Ultimate' : BOARD_SIZES[mode].label);
+
+// Every mode keeps its own score line per difficulty level
+type Scores = Record<Mode, LevelScores>;
+
+const emptyLevelScores = (): LevelScores =>
+  Object.fromEntries(DIFFICULTY_LEVELS.map(level => [level, { playerScore: 0, aiScore: 0, draws: 0 }])) as LevelScores;
+
+const emptyScores = (): Scores =>
+  Object.fromEntries(MODES.map(mode => [mode, emptyLevelScores()])) as Scores;
+
+// Hot-seat: two people take turns on one screen; watch: two AI agents play each other on the 3×3 board
+type Opponent = 'ai' | 'human' | 'watch';
+
+const OPPONENT_LABELS: Record<Opponent, string> = { ai: 'vs Barron AI', human: 'Human vs Human', watch: 'AI vs AI' };
+
+// X opens every spectator match, so the mark count says whose turn it is
+const sideOnMove = (position: Board): Side => (position.filter(cell => cell !== null).length % 2 === 0 ? 'X' : 'O');
+
+const isFinished = (position: Board): boolean => checkWinner(position) !== null || isBoardFull(position);
+
+// Side to move at ply `at` of a recorded game: whoever made the next move, else whoever did not make the last one
+const sideAt = (record: MatchRecord<Board, number>, at: number, fallback: Side): Side => {
+  if (at < record.moves.length) return record.positions[at + 1][record.moves[at]] as Side;
+  return at > 0 ? opponentOf(record.positions[at][record.moves[at - 1]] as Side) : fallback;
+};
+
+// Hot-seat results stay off the vs-AI score - playerScore counts X wins, aiScore O wins
+type HotSeatScores = Record<Mode, ScoreLine>;
+
+const emptyHotSeatScores = (): HotSeatScores =>
+  Object.fromEntries(MODES.map(mode => [mode, { playerScore: 0, aiScore: 0, draws: 0 }])) as HotSeatScores;
+
+// Tailwind needs the full class names spelled out
+const GRID_COLUMNS: Record<number, string> = { 3: 'grid-cols-3', 4: 'grid-cols-4', 5: 'grid-cols-5' };
+
+// What the hint says about Barron AI's pick - the cell, the search verdict and the tactical flags
+const describeHint = ({ position, reasoning, winningMove, blockingMove, strategicValue }: MoveAnalysis, size: number): string =>
+  [
+    `${cellName(position, size)}: ${reasoning}`,
+    winningMove && 'wins on the spot',
+    blockingMove && 'blocks a line',
+    strategicValue > 0 && `strategic value ${strategicValue}`
+  ].filter(Boolean).join(' · ');
+
+const QUALITY_COLOURS: Record<MoveQuality, string> = {
+  best: 'text-emerald-600 dark:text-emerald-400',
+  inaccuracy: 'text-amber-600 dark:text-amber-400',
+  mistake: 'text-orange-600 dark:text-orange-400',
+  blunder: 'text-red-600 dark:text-red-400'
+};
+
+// Barron AI thinks in a Web Worker so the board stays responsive
+const searchClient = new SearchClient();
 
 export default function TicTacToe() {
-  const [board, setBoard] = useState<Board>(Array(9).fill(null));
+  const [board, setBoard] = useState<Board>(createBoard);
   const [isPlayerTurn, setIsPlayerTurn] = useState(true);
   const [gameStatus, setGameStatus] = useState<'playing' | 'draw' | 'player-win' | 'ai-win'>('playing');
-  const [playerScore, setPlayerScore] = useState(0);
-  const [aiScore, setAiScore] = useState(0);
-  const [draws, setDraws] = useState(0);
+  const [difficulty, setDifficulty] = useState<Difficulty>('barron');
+  const [mode, setMode] = useState<Mode>('3x3');
+  const [ultimate, setUltimate] = useState<UltimateState>(createUltimate);
+  const [lastUltimateMove, setLastUltimateMove] = useState<UltimateMove | null>(null);
+  const [scores, setScores] = useState<Scores>(emptyScores);
+  const [opponent, setOpponent] = useState<Opponent>('ai');
+  const [playerSide, setPlayerSide] = useState<Side>('X'); // Mark the human plays against the AI
+  const [hotSeatScores, setHotSeatScores] = useState<HotSeatScores>(emptyHotSeatScores);
+  const [turn, setTurn] = useState<Side>('X'); // Side to move in a hot-seat game on the m,n,k boards
+  const [suggestedCell, setSuggestedCell] = useState<number | null>(null);
+  const [suggestedUltimate, setSuggestedUltimate] = useState<UltimateMove | null>(null);
+  const [hintReason, setHintReason] = useState<string | null>(null); // Why the engine picked the highlighted move
+  const [showEvalBar, setShowEvalBar] = useState(false);
+  const [evaluation, setEvaluation] = useState<{ board: Board; value: number } | null>(null); // Minimax outcome for X, 3×3 only
+  const [agents, setAgents] = useState<Record<Side, Agent>>({ X: 'barron', O: 'heuristic' });
+  const [match, setMatch] = useState<MatchRecord<Board, number>>(() => startMatch(createBoard()));
+  const [ply, setPly] = useState(0); // Match position on the board - below the last ply while stepping back
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState<PlaybackSpeed>('normal');
+  const [history, setHistory] = useState<GameHistory<Board, number>>(() => startHistory(createBoard()));
+  const [ultimateHistory, setUltimateHistory] = useState<GameHistory<UltimateState, UltimateMove>>(() => startHistory(createUltimate()));
+  const [takeBacks, setTakeBacks] = useState(true); // Off for rated games
+  const [importText, setImportText] = useState<string | null>(null); // Record being pasted in; null while the import box is closed
+  const [recordMessage, setRecordMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [review, setReview] = useState<TicTacToeReview[] | null>(null); // Every ply of the finished game, graded by minimax
+  const [analysedPlies, setAnalysedPlies] = useState<number | null>(null); // Progress while the analysis runs
+  const [reviewPly, setReviewPly] = useState<number | null>(null); // Reviewed move whose position is on the board
   const [isThinking, setIsThinking] = useState(false);
   const [debugLogs, setDebugLogs] = useState<string[]>([]);
   const [moveAnalysis, setMoveAnalysis] = useState<MoveAnalysis[]>([]);
   const [isAutoTesting, setIsAutoTesting] = useState(false);
   const [testResults, setTestResults] = useState<string[]>([]);
   const [lastStarter, setLastStarter] = useState<'player' | 'ai'>('ai'); // Track who started last game
+  const aiTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const isHotSeat = opponent === 'human';
+  const isWatching = opponent === 'watch';
+  const aiSide = opponentOf(playerSide);
+  const shownBoard = isWatching ? match.positions[ply] : reviewPly !== null ? history.positions[reviewPly] : board;
+  const { playerScore, aiScore, draws } = isHotSeat ? hotSeatScores[mode] : scores[mode][difficulty];
+  const sideToMove: Side = mode === 'ultimate' ? ultimate.turn : turn;
+  // Ultimate is made of classic 3×3 boards, and spectator matches are played on one
+  const geometry = BOARD_SIZES[mode === 'ultimate' || isWatching ? '3x3' : mode];
+  // Rated games go without hints or the evaluation bar, as they go without take-backs
+  const assistAllowed = opponent !== 'ai' || takeBacks;
+  // Minimax only solves the 3×3 board in time
+  const evalBarShown = showEvalBar && assistAllowed && (isWatching || mode === '3x3');
+  const shownSide: Side = isWatching
+    ? sideOnMove(shownBoard)
+    : sideAt(history, reviewPly ?? history.ply, isHotSeat ? turn : isPlayerTurn ? playerSide : aiSide);
+
+  const schedule = (callback: () => void, delay: number) => {
+    aiTimer.current = setTimeout(callback, delay);
+  };
+
+  // Drop a pending AI move and any search still running for the old game
+  const cancelAi = () => {
+    if (aiTimer.current) clearTimeout(aiTimer.current);
+    aiTimer.current = null;
+    searchClient.cancel();
+    setIsThinking(false);
+  };
+
+  const addDebugLog = useCallback((message: string) => {
+    const logMessage = `[${new Date().toLocaleTimeString()}] ${message}`;
+    setDebugLogs(prev => [...prev.slice(-9), logMessage]);
+    console.log(`🤖 AI DEBUG: ${message}`);
+  }, []);
+
+  // Count a finished game on the score line of the mode and level it was played at
+  const recordResult = (played: Mode, level: Difficulty, result: keyof ScoreLine) => {
+    setScores(prev => ({
+      ...prev,
+      [played]: { ...prev[played], [level]: { ...prev[played][level], [result]: prev[played][level][result] + 1 } }
+    }));
+  };
+
+  const recordHotSeat = useCallback((played: Mode, result: keyof ScoreLine) => {
+    setHotSeatScores(prev => ({ ...prev, [played]: { ...prev[played], [result]: prev[played][result] + 1 } }));
+  }, []);
+
+  // Returns true when the ultimate game is over after `state`
+  const finishUltimateTurn = (state: UltimateState, level: Difficulty): boolean => {
+    const record = (result: keyof ScoreLine) =>
+      isHotSeat ? recordHotSeat('ultimate', result) : recordResult('ultimate', level, result);
+
+    const winner = ultimateWinner(state);
+    if (winner) {
+      // Hot-seat keeps X's wins in the player column
+      const playerWon = winner === (isHotSeat ? 'X' : playerSide);
+      setGameStatus(playerWon ? 'player-win' : 'ai-win');
+      record(playerWon ? 'playerScore' : 'aiScore');
+      addDebugLog(`${winner} WON the meta-board`);
+      return true;
+    }
+
+    if (isUltimateOver(state)) {
+      setGameStatus('draw');
+      record('draws');
+      addDebugLog('Every small board is closed - draw');
+      return true;
+    }
+
+    return false;
+  };
+
+  // Barron AI's reply in the ultimate game, searched in the worker
+  const ultimateAiTurn = async (state: UltimateState, level: Difficulty) => {
+    const found = await searchClient.searchUltimate({ state, difficulty: level });
+    if (!found?.move) return;
+
+    const { move, reasoning } = found;
+    console.log(`🤖 AI SELECTED: Board ${move.board}, cell ${move.cell}`);
+    addDebugLog(`${reasoning} at board ${move.board}, cell ${move.cell}`);
+
+    const next = playUltimate(state, move);
+    setUltimate(next);
+    setUltimateHistory(prev => recordPly(prev, move, next));
+    setLastUltimateMove(move);
+    setIsThinking(false);
+    if (!finishUltimateTurn(next, level)) setIsPlayerTurn(true);
+  };
+
+  // One ply forward from `at` - replays a recorded ply, or asks the agent on move for a new one.
+  // Resolves with the match and ply now shown, or null once the match is over or the search was cancelled
+  const advanceMatch = async (
+    current: MatchRecord<Board, number>,
+    at: number,
+    players: Record<Side, Agent>
+  ): Promise<[MatchRecord<Board, number>, number] | null> => {
+    if (at < current.moves.length) {
+      setPly(at + 1);
+      return [current, at + 1];
+    }
+
+    const position = current.positions[at];
+    if (isFinished(position)) return null;
+
+    const side = sideOnMove(position);
+    setIsThinking(true);
+    const found = await searchClient.searchTicTacToe({ board: position, side, difficulty: 'barron', agent: players[side] });
+    if (!found || found.move === -1) return null;
+
+    const next = [...position];
+    next[found.move] = side;
+    const extended = extendMatch(current, found.move, next);
+    setMatch(extended);
+    setPly(at + 1);
+    setIsThinking(false);
+    addDebugLog(`${side} (${AGENTS[players[side]].label}) moved to position ${found.move}${found.analysis[0] ? ` - ${found.analysis[0].reasoning}` : ''}`);
+
+    if (isFinished(next)) {
+      const winner = checkWinner(next);
+      console.log(winner ? `🏁 MATCH OVER: ${winner} (${AGENTS[players[winner]].label}) WINS` : '🏁 MATCH OVER: DRAW');
+    }
+    return [extended, at + 1];
+  };
+
+  // Playback - one ply per delay until paused (cancelAi) or the match ends
+  const playMatch = (
+    current: MatchRecord<Board, number>,
+    at: number,
+    players: Record<Side, Agent> = agents,
+    delay: number = PLAYBACK_SPEEDS[speed].delayMs
+  ) => {
+    setIsPlaying(true);
+    schedule(async () => {
+      const next = await advanceMatch(current, at, players);
+      if (next && !isFinished(next[0].positions[next[1]])) {
+        playMatch(next[0], next[1], players, delay);
+      } else {
+        setIsPlaying(false);
+      }
+    }, delay);
+  };
 
   // Load stats from localStorage on mount
   useEffect(() => {
     console.log('Tic-Tac-Toe vs Barron AI - System Initialized');
     
+    let savedDifficulty: Difficulty = 'barron';
+    let savedMode: Mode = '3x3';
+    let savedOpponent: Opponent = 'ai';
+    let savedSide: Side = 'X';
     const savedStats = localStorage.getItem('tictactoe-stats');
     if (savedStats) {
       try {
         const stats = JSON.parse(savedStats);
-        setPlayerScore(stats.playerScore || 0);
-        setAiScore(stats.aiScore || 0);
-        setDraws(stats.draws || 0);
+        const loaded = emptyScores();
+        if (stats.mode || stats.boardSize) {
+          for (const saved of MODES) {
+            for (const level of DIFFICULTY_LEVELS) {
+              loaded[saved][level] = { ...loaded[saved][level], ...stats.scores?.[saved]?.[level] };
+            }
+          }
+        } else if (stats.scores) {
+          // Records saved before board sizes existed were all played on 3×3
+          for (const level of DIFFICULTY_LEVELS) {
+            loaded['3x3'][level] = { ...loaded['3x3'][level], ...stats.scores[level] };
+          }
+        } else {
+          // Records saved before difficulty levels existed were all played against Barron
+          loaded['3x3'].barron = { playerScore: stats.playerScore || 0, aiScore: stats.aiScore || 0, draws: stats.draws || 0 };
+        }
+        if (stats.difficulty in DIFFICULTIES) savedDifficulty = stats.difficulty;
+        const mode = stats.mode ?? stats.boardSize;
+        if (MODES.includes(mode)) savedMode = mode;
+        setScores(loaded);
+        setDifficulty(savedDifficulty);
+        setMode(savedMode);
+        if (savedMode !== 'ultimate') {
+          const emptyBoard = createBoard(BOARD_SIZES[savedMode]);
+          setBoard(emptyBoard);
+          setHistory(startHistory(emptyBoard));
+        }
+        if (stats.hotSeat) {
+          const hotSeat = emptyHotSeatScores();
+          for (const saved of MODES) hotSeat[saved] = { ...hotSeat[saved], ...stats.hotSeat[saved] };
+          setHotSeatScores(hotSeat);
+        }
+        if (stats.opponent in OPPONENT_LABELS) savedOpponent = stats.opponent;
+        setOpponent(savedOpponent);
+        if (stats.agents?.X in AGENTS && stats.agents?.O in AGENTS) setAgents(stats.agents);
+        if (stats.speed in PLAYBACK_SPEEDS) setSpeed(stats.speed);
+        if (stats.takeBacks === false) setTakeBacks(false);
+        if (stats.evalBar === true) setShowEvalBar(true);
+        // Records saved before the side choice were all played as X
+        if (stats.playerSide === 'O') savedSide = 'O';
+        setPlayerSide(savedSide);
         setLastStarter(stats.lastStarter || 'ai');
       } catch (error) {
         // Silent error handling
       }
     }
     
+    if (savedOpponent === 'human') {
+      addDebugLog('Hot-seat game - X moves first');
+      return;
+    }
+
+    if (savedOpponent === 'watch') {
+      addDebugLog('Spectator match - press Play to start');
+      return;
+    }
+
     // Alternate who starts first (opposite of last game)
     const aiStartsFirst = lastStarter === 'player';
     setIsPlayerTurn(!aiStartsFirst);
@@ -62,14 +385,24 @@ export default function TicTacToe() {
       setLastStarter('ai');
       
       // AI makes first move after a short delay
-      setTimeout(() => {
+      schedule(() => {
         setIsThinking(true);
-        setTimeout(() => {
-          const emptyBoard = Array(9).fill(null);
-          const aiMove = getBestMove(emptyBoard);
+        schedule(async () => {
+          const savedAiSide = opponentOf(savedSide);
+          if (savedMode === 'ultimate') {
+            const opening = createUltimate(savedAiSide);
+            setUltimate(opening);
+            setUltimateHistory(startHistory(opening));
+            await ultimateAiTurn(opening, savedDifficulty);
+            return;
+          }
+          const emptyBoard = createBoard(BOARD_SIZES[savedMode]);
+          const aiMove = await getBestMove(emptyBoard, savedDifficulty, savedAiSide);
+          if (aiMove === null) return;
           const newBoard = [...emptyBoard];
-          newBoard[aiMove] = 'O';
+          newBoard[aiMove] = savedAiSide;
           setBoard(newBoard);
+          setHistory(recordPly(startHistory<Board, number>(emptyBoard), aiMove, newBoard));
           setIsPlayerTurn(true);
           setIsThinking(false);
         }, 1000);
@@ -78,540 +411,99 @@ export default function TicTacToe() {
       console.log('🎲 Player starts first! (alternating turns)');
       addDebugLog("Player starts first");
       setLastStarter('player');
+      if (savedMode === 'ultimate') {
+        const opening = createUltimate(savedSide);
+        setUltimate(opening);
+        setUltimateHistory(startHistory(opening));
+      }
     }
   }, []);
 
+  // Stop a search that is still running when the page goes away
+  useEffect(() => () => searchClient.cancel(), []);
+
+  // Solve the board on screen for the evaluation bar - finished boards need no search
+  useEffect(() => {
+    if (!evalBarShown || isFinished(shownBoard)) return;
+    let current = true;
+    searchClient.searchTicTacToe({ board: shownBoard, side: shownSide, difficulty: 'barron', agent: 'minimax' }).then(found => {
+      if (current && found) setEvaluation({ board: shownBoard, value: ticTacToeEvaluation(found.analysis, shownSide) });
+    });
+    return () => {
+      current = false;
+    };
+  }, [evalBarShown, shownBoard, shownSide]);
+
   // Save stats to localStorage whenever they change
   useEffect(() => {
     const stats = {
-      playerScore,
-      aiScore,
-      draws,
+      difficulty,
+      mode,
+      opponent,
+      playerSide,
+      agents,
+      speed,
+      takeBacks,
+      evalBar: showEvalBar,
+      scores,
+      hotSeat: hotSeatScores,
       lastStarter
     };
     localStorage.setItem('tictactoe-stats', JSON.stringify(stats));
-  }, [playerScore, aiScore, draws, lastStarter]);
-
-  const addDebugLog = (message: string) => {
-    const logMessage = `[${new Date().toLocaleTimeString()}] ${message}`;
-    setDebugLogs(prev => [...prev.slice(-9), logMessage]);
-    console.log(`🤖 AI DEBUG: ${message}`);
-  };
-
-  const checkWinner = useCallback((board: Board): Player => {
-    for (const [a, b, c] of WINNING_COMBINATIONS) {
-      if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-        return board[a];
-      }
-    }
-    return null;
-  }, []);
-
-  const isBoardFull = useCallback((board: Board): boolean => {
-    return board.every(cell => cell !== null);
-  }, []);
-
-  // Hyper-aggressive Minimax that hates draws
-  const minimax = useCallback((
-    board: Board, 
-    depth: number, 
-    isMaximizing: boolean, 
-    alpha: number = -Infinity, 
-    beta: number = Infinity
-  ): number => {
-    const winner = checkWinner(board);
-    
-    if (winner === 'O') {
-      const score = 10000 - depth;
-      return score;
-    }
-    if (winner === 'X') {
-      const score = depth - 10000;
-      return score;
-    }
-    if (isBoardFull(board)) {
-      const score = -100 - depth;
-      return score;
-    }
-
-    if (isMaximizing) {
-      let maxEval = -Infinity;
-      
-      // เรียงลำดับ moves ตาม strategic value
-      const moves = [];
-      for (let i = 0; i < 9; i++) {
-        if (board[i] === null) {
-          // ให้ความสำคัญกับมุมและกลาง
-          const priority = [0, 2, 6, 8].includes(i) ? 3 : (i === 4 ? 5 : 1);
-          moves.push({ index: i, priority });
-        }
-      }
-      moves.sort((a, b) => b.priority - a.priority);
-      
-      for (const move of moves) {
-        const i = move.index;
-        board[i] = 'O';
-        
-        // ตรวจสอบ fork opportunities
-        let forkBonus = 0;
-        let winningLines = 0;
-        for (const combo of WINNING_COMBINATIONS) {
-          const [a, b, c] = combo;
-          const oCount = [board[a], board[b], board[c]].filter(cell => cell === 'O').length;
-          const emptyCount = [board[a], board[b], board[c]].filter(cell => cell === null).length;
-          const xCount = [board[a], board[b], board[c]].filter(cell => cell === 'X').length;
-          
-          if (oCount === 2 && emptyCount === 1 && xCount === 0) {
-            winningLines++;
-          }
-        }
-        
-        if (winningLines >= 2) {
-          forkBonus = 5000; // Fork bonus
-        }
-        
-        const evaluation = minimax(board, depth + 1, false, alpha, beta) + forkBonus;
-        board[i] = null;
-        
-        maxEval = Math.max(maxEval, evaluation);
-        alpha = Math.max(alpha, evaluation);
-        if (beta <= alpha) break;
-      }
-      return maxEval;
-    } else {
-      let minEval = Infinity;
-      
-      for (let i = 0; i < 9; i++) {
-        if (board[i] === null) {
-          board[i] = 'X';
-          const evaluation = minimax(board, depth + 1, true, alpha, beta);
-          board[i] = null;
-          minEval = Math.min(minEval, evaluation);
-          beta = Math.min(beta, evaluation);
-          if (beta <= alpha) break;
-        }
-      }
-      return minEval;
-    }
-  }, [checkWinner, isBoardFull]);
+  }, [difficulty, mode, opponent, playerSide, agents, speed, takeBacks, showEvalBar, scores, hotSeatScores, lastStarter]);
 
-  // ULTRA PERFECT AI - Enhanced with Advanced Pattern Recognition
-  const getBestMove = useCallback((board: Board): number => {
-    console.log(`🚀 === BARRON AI ANALYSIS START ===`);
-    addDebugLog("=== BARRON AI ANALYSIS START ===");
-    
-    const emptyCount = board.filter(cell => cell === null).length;
-    console.log(`📊 Empty positions: ${emptyCount}`);
-    console.log(`📋 Current board:`, board);
-    addDebugLog(`Empty positions: ${emptyCount}`);
-
-    // STEP 1: Win immediately if possible
-    console.log(`🔍 STEP 1: Checking for immediate win...`);
-    for (let i = 0; i < 9; i++) {
-      if (board[i] === null) {
-        board[i] = 'O';
-        if (checkWinner(board) === 'O') {
-          board[i] = null;
-          console.log(`👑 STEP 1: IMMEDIATE WIN at position ${i}!`);
-          addDebugLog(`STEP 1: IMMEDIATE WIN at position ${i}!`);
-          setMoveAnalysis([{
-            position: i,
-            score: 100000,
-            reasoning: "STEP 1: IMMEDIATE WIN",
-            winningMove: true,
-            blockingMove: false,
-            strategicValue: 100
-          }]);
-          return i;
-        }
-        board[i] = null;
-      }
-    }
+  // Ask the search worker for Barron AI's move and surface its analysis on the page; null once cancelled
+  const getBestMove = useCallback(async (board: Board, level: Difficulty = difficulty, side: Side = aiSide): Promise<number | null> => {
+    const found = await searchClient.searchTicTacToe({ board, side, difficulty: level });
+    if (!found) return null;
 
-    // STEP 2: Block opponent's immediate win (including preventing forks)
-    console.log(`🔍 STEP 2: Checking for opponent's winning threats...`);
-    const blockingMoves = [];
-    for (let i = 0; i < 9; i++) {
-      if (board[i] === null) {
-        board[i] = 'X';
-        if (checkWinner(board) === 'X') {
-          blockingMoves.push(i);
-          console.log(`⚠️ Found threat at position ${i}`);
-        }
-        board[i] = null;
-      }
-    }
-    
-    if (blockingMoves.length > 1) {
-      // Player has created a fork! This is critical - we already lost
-      console.log(`🔴 CRITICAL: Player has ${blockingMoves.length} winning threats (FORK)! Game likely lost.`);
-      console.log(`🔴 Available blocks: ${blockingMoves.join(', ')}`);
-      // Block one of them anyway
-      const blockPosition = blockingMoves[0];
-      console.log(`🛡️ STEP 2: Blocking position ${blockPosition} (but player will win next turn)`);
-      addDebugLog(`STEP 2: MUST BLOCK at position ${blockPosition}!`);
-      setMoveAnalysis([{
-        position: blockPosition,
-        score: 50000,
-        reasoning: "STEP 2: BLOCK OPPONENT WIN (FORK DETECTED)",
-        winningMove: false,
-        blockingMove: true,
-        strategicValue: 50
-      }]);
-      return blockPosition;
-    } else if (blockingMoves.length === 1) {
-      const blockPosition = blockingMoves[0];
-      console.log(`🛡️ STEP 2: MUST BLOCK at position ${blockPosition}!`);
-      addDebugLog(`STEP 2: MUST BLOCK at position ${blockPosition}!`);
-      setMoveAnalysis([{
-        position: blockPosition,
-        score: 50000,
-        reasoning: "STEP 2: BLOCK OPPONENT WIN",
-        winningMove: false,
-        blockingMove: true,
-        strategicValue: 50
-      }]);
-      return blockPosition;
-    }
+    const { move, analysis } = found;
+    setMoveAnalysis(analysis);
+    addDebugLog(analysis.length > 0 ? `${analysis[0].reasoning} at position ${move}` : 'ERROR: No valid moves found!');
+    return move;
+  }, [difficulty, aiSide, addDebugLog]);
 
-    // STEP 3: Create a fork (two winning threats) - Enhanced with priority scoring
-    let bestForkMove = -1;
-    let bestForkScore = 0;
-    
-    for (let i = 0; i < 9; i++) {
-      if (board[i] === null) {
-        board[i] = 'O';
-        
-        let winningLines = 0;
-        let forkQuality = 0;
-        
-        for (const combo of WINNING_COMBINATIONS) {
-          const [a, b, c] = combo;
-          const oCount = [board[a], board[b], board[c]].filter(cell => cell === 'O').length;
-          const emptyCount = [board[a], board[b], board[c]].filter(cell => cell === null).length;
-          const xCount = [board[a], board[b], board[c]].filter(cell => cell === 'X').length;
-          
-          if (oCount === 2 && emptyCount === 1 && xCount === 0) {
-            winningLines++;
-            // Bonus for corner-based winning lines (harder to block)
-            if ([0, 2, 6, 8].some(corner => [a, b, c].includes(corner))) {
-              forkQuality += 2;
-            } else {
-              forkQuality += 1;
-            }
-          }
-        }
-        
-        if (winningLines >= 2) {
-          const forkScore = winningLines * 1000 + forkQuality * 500;
-          if (forkScore > bestForkScore) {
-            bestForkScore = forkScore;
-            bestForkMove = i;
-          }
-        }
-        
-        board[i] = null;
-      }
-    }
-    
-    if (bestForkMove !== -1) {
-      addDebugLog(`STEP 3: CREATE SUPERIOR FORK at position ${bestForkMove} (score: ${bestForkScore})!`);
-      setMoveAnalysis([{
-        position: bestForkMove,
-        score: 40000 + bestForkScore,
-        reasoning: `STEP 3: CREATE SUPERIOR FORK - Quality Score: ${bestForkScore}`,
-        winningMove: false,
-        blockingMove: false,
-        strategicValue: Math.floor(bestForkScore / 100)
-      }]);
-      return bestForkMove;
-    }
+  // Hot-seat: both sides are clicked in on the same screen, X always opens
+  const playHotSeatMove = useCallback((index: number) => {
+    searchClient.cancel(); // A suggestion still being searched is out of date now
+    const newBoard = [...board];
+    newBoard[index] = turn;
+    setBoard(newBoard);
+    setHistory(prev => recordPly(prev, index, newBoard));
+    setSuggestedCell(null);
+    setHintReason(null);
+    addDebugLog(`${turn} moved to position ${index}`);
 
-    // STEP 4: Block opponent's fork - Prevent player from creating fork opportunities
-    console.log(`🔍 STEP 4: Checking which moves would allow opponent to create forks...`);
-    
-    // Special case: If player has opposite corners, we MUST play a side (not corner)
-    const playerCorners = [];
-    for (let i of [0, 2, 6, 8]) {
-      if (board[i] === 'X') playerCorners.push(i);
-    }
-    
-    if (playerCorners.length === 2) {
-      const [c1, c2] = playerCorners;
-      // Check if they are opposite corners
-      if ((c1 === 0 && c2 === 8) || (c1 === 8 && c2 === 0) || 
-          (c1 === 2 && c2 === 6) || (c1 === 6 && c2 === 2)) {
-        console.log(`🚨 CRITICAL: Player has opposite corners (${c1}, ${c2})! Must play a side!`);
-        const sides = [1, 3, 5, 7].filter(pos => board[pos] === null);
-        if (sides.length > 0) {
-          const sideMove = sides[0];
-          console.log(`🛡️ STEP 4: Playing side position ${sideMove} to prevent fork`);
-          addDebugLog(`STEP 4: PREVENT OPPOSITE CORNER FORK at position ${sideMove}!`);
-          setMoveAnalysis([{
-            position: sideMove,
-            score: 45000,
-            reasoning: `STEP 4: PREVENT OPPOSITE CORNER FORK`,
-            winningMove: false,
-            blockingMove: true,
-            strategicValue: 45
-          }]);
-          return sideMove;
-        }
-      }
-    }
-    
-    // For each possible AI move, check if it allows player to create a fork
-    const safeMoves = [];
-    const dangerousMoves = [];
-    
-    for (let aiMove = 0; aiMove < 9; aiMove++) {
-      if (board[aiMove] !== null) continue;
-      
-      // Simulate AI move
-      board[aiMove] = 'O';
-      
-      // Check all possible player responses
-      let maxPlayerThreats = 0;
-      for (let playerMove = 0; playerMove < 9; playerMove++) {
-        if (board[playerMove] !== null) continue;
-        
-        // Simulate player move
-        board[playerMove] = 'X';
-        
-        // Count how many winning threats player would have
-        let playerThreats = 0;
-        for (let checkPos = 0; checkPos < 9; checkPos++) {
-          if (board[checkPos] !== null) continue;
-          
-          board[checkPos] = 'X';
-          if (checkWinner(board) === 'X') {
-            playerThreats++;
-          }
-          board[checkPos] = null;
-        }
-        
-        maxPlayerThreats = Math.max(maxPlayerThreats, playerThreats);
-        board[playerMove] = null;
-      }
-      
-      board[aiMove] = null;
-      
-      if (maxPlayerThreats >= 2) {
-        dangerousMoves.push({ position: aiMove, threats: maxPlayerThreats });
-        console.log(`⚠️ Position ${aiMove} allows player to create ${maxPlayerThreats} threats (DANGEROUS)`);
-      } else {
-        safeMoves.push(aiMove);
-      }
-    }
-    
-    // If we found dangerous moves, avoid them and pick a safe one
-    if (dangerousMoves.length > 0 && safeMoves.length > 0) {
-      console.log(`🛡️ STEP 4: Avoiding dangerous moves, choosing from safe positions: ${safeMoves.join(', ')}`);
-      // Prefer corners, then center, then sides
-      const preferredSafe = safeMoves.find(pos => [0, 2, 6, 8].includes(pos)) || 
-                           safeMoves.find(pos => pos === 4) ||
-                           safeMoves[0];
-      console.log(`🛡️ STEP 4: Selected safe position ${preferredSafe}`);
-      addDebugLog(`STEP 4: PREVENT FORK at position ${preferredSafe}!`);
-      setMoveAnalysis([{
-        position: preferredSafe,
-        score: 35000,
-        reasoning: `STEP 4: PREVENT OPPONENT FORK`,
-        winningMove: false,
-        blockingMove: true,
-        strategicValue: 35
-      }]);
-      return preferredSafe;
+    const winner = checkWinner(newBoard);
+    if (winner) {
+      setGameStatus(winner === 'X' ? 'player-win' : 'ai-win');
+      recordHotSeat(mode, winner === 'X' ? 'playerScore' : 'aiScore');
+      return;
     }
 
-    // STEP 5: Advanced Center Strategy
-    if (board[4] === null) {
-      // Check if taking center creates immediate tactical advantage
-      let centerAdvantage = 0;
-      board[4] = 'O';
-      
-      // Count potential winning lines through center
-      const centerCombos = [[0, 4, 8], [2, 4, 6], [1, 4, 7], [3, 4, 5]];
-      for (const combo of centerCombos) {
-        const [a, b, c] = combo;
-        const oCount = [board[a], board[b], board[c]].filter(cell => cell === 'O').length;
-        const emptyCount = [board[a], board[b], board[c]].filter(cell => cell === null).length;
-        const xCount = [board[a], board[b], board[c]].filter(cell => cell === 'X').length;
-        
-        if (oCount === 1 && emptyCount === 2 && xCount === 0) {
-          centerAdvantage += 2;
-        }
-      }
-      
-      board[4] = null;
-      
-      addDebugLog(`STEP 5: TAKE STRATEGIC CENTER at position 4 (advantage: ${centerAdvantage})!`);
-      setMoveAnalysis([{
-        position: 4,
-        score: 20000 + centerAdvantage * 500,
-        reasoning: `STEP 5: TAKE STRATEGIC CENTER - Advantage: ${centerAdvantage}`,
-        winningMove: false,
-        blockingMove: false,
-        strategicValue: 20 + centerAdvantage
-      }]);
-      return 4;
+    if (isBoardFull(newBoard)) {
+      setGameStatus('draw');
+      recordHotSeat(mode, 'draws');
+      return;
     }
 
-    // STEP 6: Enhanced Opposite Corner Strategy
-    const cornerPairs = [[0, 8], [2, 6]];
-    let bestCornerMove = -1;
-    let bestCornerValue = 0;
-    
-    for (const [corner1, corner2] of cornerPairs) {
-      if (board[corner1] === 'X' && board[corner2] === null) {
-        // Calculate strategic value of this corner
-        let cornerValue = 10;
-        
-        // Bonus if it creates multiple potential lines
-        const adjacentPositions = corner2 === 0 ? [1, 3] : 
-                                 corner2 === 2 ? [1, 5] :
-                                 corner2 === 6 ? [3, 7] : [5, 7];
-        
-        for (const adj of adjacentPositions) {
-          if (board[adj] === null) cornerValue += 2;
-        }
-        
-        if (cornerValue > bestCornerValue) {
-          bestCornerValue = cornerValue;
-          bestCornerMove = corner2;
-        }
-      }
-      if (board[corner2] === 'X' && board[corner1] === null) {
-        let cornerValue = 10;
-        
-        const adjacentPositions = corner1 === 0 ? [1, 3] : 
-                                 corner1 === 2 ? [1, 5] :
-                                 corner1 === 6 ? [3, 7] : [5, 7];
-        
-        for (const adj of adjacentPositions) {
-          if (board[adj] === null) cornerValue += 2;
-        }
-        
-        if (cornerValue > bestCornerValue) {
-          bestCornerValue = cornerValue;
-          bestCornerMove = corner1;
-        }
-      }
-    }
-    
-    if (bestCornerMove !== -1) {
-      addDebugLog(`STEP 6: TAKE OPTIMAL OPPOSITE CORNER at position ${bestCornerMove} (value: ${bestCornerValue})!`);
-      setMoveAnalysis([{
-        position: bestCornerMove,
-        score: 15000 + bestCornerValue * 200,
-        reasoning: `STEP 6: TAKE OPTIMAL OPPOSITE CORNER - Value: ${bestCornerValue}`,
-        winningMove: false,
-        blockingMove: false,
-        strategicValue: 15 + bestCornerValue
-      }]);
-      return bestCornerMove;
-    }
+    setTurn(opponentOf(turn));
+  }, [board, turn, mode, addDebugLog, recordHotSeat]);
 
-    // STEP 7: Smart Corner Selection with Pattern Recognition
-    const corners = [0, 2, 6, 8];
-    let bestCorner = -1;
-    let bestScore = 0;
-    
-    for (const corner of corners) {
-      if (board[corner] === null) {
-        let score = 5; // Base score
-        
-        // Bonus for corners that create multiple potential winning lines
-        const cornerLines = WINNING_COMBINATIONS.filter(combo => combo.includes(corner));
-        for (const line of cornerLines) {
-          const [a, b, c] = line;
-          const oCount = [board[a], board[b], board[c]].filter(cell => cell === 'O').length;
-          const emptyCount = [board[a], board[b], board[c]].filter(cell => cell === null).length;
-          const xCount = [board[a], board[b], board[c]].filter(cell => cell === 'X').length;
-          
-          if (oCount === 0 && xCount === 0) score += 3; // Open line
-          if (oCount === 1 && xCount === 0) score += 5; // Potential winning line
-        }
-        
-        // Bonus for corners adjacent to empty spaces
-        const adjacentPositions = corner === 0 ? [1, 3] : 
-                                 corner === 2 ? [1, 5] :
-                                 corner === 6 ? [3, 7] : [5, 7];
-        
-        for (const adj of adjacentPositions) {
-          if (board[adj] === null) score += 1;
-        }
-        
-        if (score > bestScore) {
-          bestScore = score;
-          bestCorner = corner;
-        }
-      }
-    }
-    
-    if (bestCorner !== -1) {
-      addDebugLog(`STEP 7: TAKE STRATEGIC CORNER at position ${bestCorner} (score: ${bestScore})!`);
-      setMoveAnalysis([{
-        position: bestCorner,
-        score: 10000 + bestScore * 100,
-        reasoning: `STEP 7: TAKE STRATEGIC CORNER - Score: ${bestScore}`,
-        winningMove: false,
-        blockingMove: false,
-        strategicValue: 10 + bestScore
-      }]);
-      return bestCorner;
-    }
+  const makeMove = useCallback((index: number) => {
+    if (isWatching || board[index] || gameStatus !== 'playing' || !isPlayerTurn) return;
 
-    // STEP 8: Intelligent Side Selection (last resort but optimized)
-    const sides = [1, 3, 5, 7];
-    let bestSide = -1;
-    let bestSideScore = 0;
-    
-    for (const side of sides) {
-      if (board[side] === null) {
-        let score = 1; // Base score
-        
-        // Check if this side can contribute to future winning lines
-        const sideLines = WINNING_COMBINATIONS.filter(combo => combo.includes(side));
-        for (const line of sideLines) {
-          const [a, b, c] = line;
-          const oCount = [board[a], board[b], board[c]].filter(cell => cell === 'O').length;
-          const emptyCount = [board[a], board[b], board[c]].filter(cell => cell === null).length;
-          const xCount = [board[a], board[b], board[c]].filter(cell => cell === 'X').length;
-          
-          if (oCount === 1 && xCount === 0) score += 2; // Can extend our line
-          if (oCount === 0 && xCount === 0) score += 1; // Neutral line
-        }
-        
-        if (score > bestSideScore) {
-          bestSideScore = score;
-          bestSide = side;
-        }
-      }
-    }
-    
-    if (bestSide !== -1) {
-      addDebugLog(`STEP 8: TAKE OPTIMAL SIDE at position ${bestSide} (score: ${bestSideScore})!`);
-      setMoveAnalysis([{
-        position: bestSide,
-        score: 5000 + bestSideScore * 50,
-        reasoning: `STEP 8: TAKE OPTIMAL SIDE - Score: ${bestSideScore}`,
-        winningMove: false,
-        blockingMove: false,
-        strategicValue: 5 + bestSideScore
-      }]);
-      return bestSide;
+    if (isHotSeat) {
+      playHotSeatMove(index);
+      return;
     }
 
-    addDebugLog("ERROR: No valid moves found!");
-    return 0; // Fallback
-  }, [checkWinner, addDebugLog]);
-
-  const makeMove = useCallback((index: number) => {
-    if (board[index] || gameStatus !== 'playing' || !isPlayerTurn) return;
-
+    searchClient.cancel(); // A hint still being searched is out of date now
+    setSuggestedCell(null);
+    setHintReason(null);
     const newBoard = [...board];
-    newBoard[index] = 'X';
+    newBoard[index] = playerSide;
+    setHistory(prev => recordPly(prev, index, newBoard));
     
     console.log(`🎮 PLAYER MOVE: Position ${index}`);
     console.log(`📋 Board after player move:`, newBoard);
@@ -621,7 +513,7 @@ export default function TicTacToe() {
     if (winner) {
       setBoard(newBoard);
       setGameStatus('player-win');
-      setPlayerScore(prev => prev + 1);
+      recordResult(mode, difficulty, 'playerScore');
       console.log(`🎉 PLAYER WON! This should not happen!`);
       console.log(`🔴 CRITICAL: AI failed to prevent player win!`);
       addDebugLog("PLAYER WON - This should not happen!");
@@ -631,7 +523,7 @@ export default function TicTacToe() {
     if (isBoardFull(newBoard)) {
       setBoard(newBoard);
       setGameStatus('draw');
-      setDraws(prev => prev + 1);
+      recordResult(mode, difficulty, 'draws');
       addDebugLog("Game ended in draw");
       return;
     }
@@ -640,11 +532,13 @@ export default function TicTacToe() {
     setIsPlayerTurn(false);
     setIsThinking(true);
 
-    setTimeout(() => {
+    schedule(async () => {
       console.log(`🤖 AI TURN STARTING...`);
-      const aiMove = getBestMove(newBoard);
+      const aiMove = await getBestMove(newBoard);
+      if (aiMove === null) return;
       const aiBoard = [...newBoard];
-      aiBoard[aiMove] = 'O';
+      aiBoard[aiMove] = aiSide;
+      setHistory(prev => recordPly(prev, aiMove, aiBoard));
 
       console.log(`🤖 AI SELECTED: Position ${aiMove}`);
       console.log(`📋 Board after AI move:`, aiBoard);
@@ -653,7 +547,7 @@ export default function TicTacToe() {
       if (aiWinner) {
         setBoard(aiBoard);
         setGameStatus('ai-win');
-        setAiScore(prev => prev + 1);
+        recordResult(mode, difficulty, 'aiScore');
         addDebugLog("AI WON!");
         setIsThinking(false);
         return;
@@ -662,7 +556,7 @@ export default function TicTacToe() {
       if (isBoardFull(aiBoard)) {
         setBoard(aiBoard);
         setGameStatus('draw');
-        setDraws(prev => prev + 1);
+        recordResult(mode, difficulty, 'draws');
         addDebugLog("Game ended in draw");
         setIsThinking(false);
         return;
@@ -672,24 +566,288 @@ export default function TicTacToe() {
       setIsPlayerTurn(true);
       setIsThinking(false);
     }, 1200 + Math.random() * 800);
-  }, [board, gameStatus, isPlayerTurn, checkWinner, isBoardFull, getBestMove, addDebugLog]);
+  }, [board, gameStatus, isPlayerTurn, isHotSeat, isWatching, playerSide, aiSide, difficulty, mode, getBestMove, addDebugLog, playHotSeatMove]);
+
+  // The cell you play picks the small board the AI has to answer in
+  const makeUltimateMove = (move: UltimateMove) => {
+    if (gameStatus !== 'playing' || !isPlayerTurn || isThinking) return;
+    if (!legalUltimateMoves(ultimate).some(legal => legal.board === move.board && legal.cell === move.cell)) return;
+
+    console.log(`🎮 PLAYER MOVE: Board ${move.board}, cell ${move.cell}`);
+    addDebugLog(`Player moved to board ${move.board}, cell ${move.cell}`);
+
+    const next = playUltimate(ultimate, move);
+    setUltimate(next);
+    setUltimateHistory(prev => recordPly(prev, move, next));
+    setLastUltimateMove(move);
+    setSuggestedUltimate(null);
+    setHintReason(null);
+    searchClient.cancel(); // A hint still being searched is out of date now
+    if (finishUltimateTurn(next, difficulty)) return;
+    if (isHotSeat) return;
+
+    setIsPlayerTurn(false);
+    setIsThinking(true);
+    schedule(() => ultimateAiTurn(next, difficulty), 800);
+  };
 
   const resetStats = () => {
-    setPlayerScore(0);
-    setAiScore(0);
-    setDraws(0);
+    if (isHotSeat) {
+      setHotSeatScores(prev => ({ ...prev, [mode]: { playerScore: 0, aiScore: 0, draws: 0 } }));
+    } else {
+      setScores(prev => ({ ...prev, [mode]: { ...prev[mode], [difficulty]: { playerScore: 0, aiScore: 0, draws: 0 } } }));
+    }
     resetGame();
   };
 
-  // Random Player for Auto Testing
-  const makeRandomMove = useCallback((currentBoard: Board): number => {
-    const availableMoves = [];
-    for (let i = 0; i < 9; i++) {
-      if (currentBoard[i] === null) {
-        availableMoves.push(i);
+  // A new level starts a new game so every result lands on the right score line
+  const changeDifficulty = (level: Difficulty) => {
+    if (level === difficulty) return;
+    setDifficulty(level);
+    resetGame(level);
+  };
+
+  // So does a new mode - the AI switches between the 3×3 engine, the line search and the meta-board search
+  const changeMode = (next: Mode) => {
+    if (next === mode) return;
+    setMode(next);
+    resetGame(difficulty, next);
+  };
+
+  const changeOpponent = (next: Opponent) => {
+    if (next === opponent) return;
+    setOpponent(next);
+    resetGame(difficulty, mode, next);
+  };
+
+  const changeSide = (side: Side) => {
+    if (side === playerSide) return;
+    setPlayerSide(side);
+    resetGame(difficulty, mode, opponent, side);
+  };
+
+  // Rated games go without take-backs, so switching the setting starts a new game
+  const changeTakeBacks = (allowed: boolean) => {
+    if (allowed === takeBacks) return;
+    setTakeBacks(allowed);
+    resetGame();
+  };
+
+  // Whether the human played the move made from ply `at` - every move in hot-seat, the player's side against the AI
+  const humanMoves = (at: number): boolean => {
+    if (isHotSeat) return true;
+    if (mode === 'ultimate') return ultimateHistory.positions[at].turn === playerSide;
+    return history.positions[at + 1][history.moves[at]] === playerSide;
+  };
+
+  const statusAfter = (winner: Player, over: boolean): typeof gameStatus => {
+    if (winner) return winner === (isHotSeat ? 'X' : playerSide) ? 'player-win' : 'ai-win';
+    return over ? 'draw' : 'playing';
+  };
+
+  // Put ply `target` of the game back on the board - results already counted stay on the score line
+  const restorePly = (target: number, discardRedo: boolean) => {
+    if (mode === 'ultimate') {
+      const rewound = { ...ultimateHistory, ply: target };
+      const state = rewound.positions[target];
+      setUltimateHistory(discardRedo ? dropRedo(rewound) : rewound);
+      setUltimate(state);
+      setLastUltimateMove(target > 0 ? rewound.moves[target - 1] : null);
+      setGameStatus(statusAfter(ultimateWinner(state), isUltimateOver(state)));
+    } else {
+      const rewound = { ...history, ply: target };
+      const position = rewound.positions[target];
+      setHistory(discardRedo ? dropRedo(rewound) : rewound);
+      setBoard(position);
+      setGameStatus(statusAfter(checkWinner(position), isBoardFull(position)));
+      setTurn(sideAt(rewound, target, 'X'));
+    }
+    setSuggestedCell(null);
+    setSuggestedUltimate(null);
+    setHintReason(null);
+    setReview(null);
+    setReviewPly(null);
+    setIsPlayerTurn(true);
+  };
+
+  // Takes back the AI's reply together with the move before it, or the last move in hot-seat
+  const undo = () => {
+    const target = mode === 'ultimate' ? undoTarget(ultimateHistory, humanMoves) : undoTarget(history, humanMoves);
+    if (!takeBacks || target === null) return;
+    // A reply that was still on its way never made it into the history, so there is nothing to redo
+    const pending = isThinking;
+    cancelAi();
+    console.log(`↩️ UNDO to ply ${target}`);
+    addDebugLog(`Took back to ply ${target}`);
+    restorePly(target, pending);
+  };
+
+  const redo = () => {
+    const target = mode === 'ultimate' ? redoTarget(ultimateHistory, humanMoves) : redoTarget(history, humanMoves);
+    if (!takeBacks || target === null) return;
+    console.log(`↪️ REDO to ply ${target}`);
+    addDebugLog(`Replayed to ply ${target}`);
+    restorePly(target, false);
+  };
+
+  // The game so far as a PGN-style record - ultimate games are not recorded
+  const exportRecord = (): string => {
+    const boardSize = mode === 'ultimate' ? '3x3' : mode;
+    const starter = sideAt(history, 0, isHotSeat ? turn : isPlayerTurn ? playerSide : aiSide);
+    const headers: Record<string, string> = isHotSeat
+      ? { X: 'Player X', O: 'Player O' }
+      : { [playerSide]: 'Player', [aiSide]: 'Barron AI', Difficulty: DIFFICULTIES[difficulty].label };
+    return formatTicTacToe({ boardSize, starter, moves: history.moves.slice(0, history.ply) }, { ...headers, Date: new Date().toISOString().slice(0, 10) });
+  };
+
+  const copyRecord = async () => {
+    try {
+      await navigator.clipboard.writeText(exportRecord());
+      setRecordMessage({ text: 'Record copied to the clipboard', isError: false });
+    } catch {
+      setRecordMessage({ text: 'The clipboard is not available - use Download instead', isError: true });
+    }
+  };
+
+  const downloadRecord = () => {
+    const url = URL.createObjectURL(new Blob([exportRecord()], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `tictactoe-${new Date().toISOString().slice(0, 10)}.pgn`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Imported games are replayed through the rules and continue as a hot-seat game, so both sides can be played on
+  const importRecord = (text: string) => {
+    let parsed: ReturnType<typeof parseTicTacToe>;
+    try {
+      parsed = parseTicTacToe(text);
+    } catch (error) {
+      setRecordMessage({ text: error instanceof NotationError ? error.message : 'Could not read the record', isError: true });
+      return;
+    }
+
+    const { game, positions } = parsed;
+    resetGame(difficulty, game.boardSize, 'human');
+    setMode(game.boardSize);
+    setOpponent('human');
+
+    const imported = { positions, moves: game.moves, ply: game.moves.length };
+    const last = positions[positions.length - 1];
+    const winner = checkWinner(last);
+    setHistory(imported);
+    setBoard(last);
+    setTurn(sideAt(imported, imported.ply, game.starter));
+    setGameStatus(winner ? (winner === 'X' ? 'player-win' : 'ai-win') : isBoardFull(last) ? 'draw' : 'playing');
+    setImportText(null);
+    setRecordMessage({ text: `Imported ${game.moves.length} moves`, isError: false });
+    console.log(`📥 IMPORTED: ${game.moves.length} moves on ${game.boardSize}`);
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (file) importRecord(await file.text());
+  };
+
+  // Post-game review on 3×3 - minimax scores every cell of every position, so each move is graded exactly
+  const analyseGame = async () => {
+    const moves = history.moves.slice(0, history.ply);
+    const reviews: TicTacToeReview[] = [];
+    console.log(`🔍 ANALYSING ${moves.length} plies`);
+    setReview(null);
+    setAnalysedPlies(0);
+
+    for (let at = 0; at < moves.length; at++) {
+      const side = history.positions[at + 1][moves[at]] as Side;
+      const found = await searchClient.searchTicTacToe({ board: history.positions[at], side, difficulty: 'barron', agent: 'minimax' });
+      if (!found) {
+        // Cancelled by a new game or a take-back
+        setAnalysedPlies(null);
+        return;
       }
+      reviews.push(reviewTicTacToePly(at, found.analysis, moves[at], side));
+      setAnalysedPlies(at + 1);
     }
-    
+
+    const lost = reviews.find(entry => entry.lostTheDraw);
+    addDebugLog(lost ? `Analysis: the draw was lost at ply ${lost.ply + 1}` : 'Analysis complete');
+    setReview(reviews);
+    setAnalysedPlies(null);
+  };
+
+  const pauseMatch = () => {
+    cancelAi();
+    setIsPlaying(false);
+  };
+
+  const startSpectatorMatch = (players: Record<Side, Agent> = agents) => {
+    console.log('🍿 Spectator match - X opens');
+    addDebugLog('Spectator match - X opens');
+    const fresh = startMatch<Board, number>(createBoard());
+    setMatch(fresh);
+    setPly(0);
+    playMatch(fresh, 0, players);
+  };
+
+  // A different agent on either side starts a new match
+  const changeAgent = (side: Side, agent: Agent) => {
+    if (agents[side] === agent) return;
+    const players = { ...agents, [side]: agent };
+    setAgents(players);
+    pauseMatch();
+    startSpectatorMatch(players);
+  };
+
+  // A running match picks up the new delay from the next ply
+  const changeSpeed = (option: PlaybackSpeed) => {
+    setSpeed(option);
+    if (!isPlaying) return;
+    pauseMatch();
+    playMatch(match, ply, agents, PLAYBACK_SPEEDS[option].delayMs);
+  };
+
+  // Stepping pauses playback; Play carries on from the shown ply, replaying recorded plies first
+  const stepBack = () => {
+    pauseMatch();
+    setPly(Math.max(0, ply - 1));
+  };
+
+  const stepForward = () => {
+    if (isThinking) return;
+    pauseMatch();
+    advanceMatch(match, ply, agents);
+  };
+
+  const jumpTo = (target: number) => {
+    pauseMatch();
+    setPly(target);
+  };
+
+  // Barron AI's pick for the human on move - whoever is to move in hot-seat - highlighted with its reasoning, never played
+  const suggestMove = async () => {
+    if (gameStatus !== 'playing' || !isPlayerTurn || isThinking) return;
+
+    if (mode === 'ultimate') {
+      const found = await searchClient.searchUltimate({ state: ultimate, difficulty: 'barron' });
+      if (!found?.move) return;
+      setSuggestedUltimate(found.move);
+      setHintReason(`Board ${found.move.board}, cell ${found.move.cell}: ${found.reasoning}`);
+      addDebugLog(`Suggestion for ${ultimate.turn}: board ${found.move.board}, cell ${found.move.cell} (${found.reasoning})`);
+      return;
+    }
+
+    const side = isHotSeat ? turn : playerSide;
+    const found = await searchClient.searchTicTacToe({ board, side, difficulty: 'barron' });
+    if (!found || found.move === -1) return;
+    const pick = found.analysis.find(entry => entry.position === found.move) ?? found.analysis[0];
+    setSuggestedCell(found.move);
+    setHintReason(describeHint(pick, geometry.size));
+    addDebugLog(`Suggestion for ${side}: position ${found.move}`);
+  };
+
+  // Random Player for Auto Testing
+  const makeRandomMove = useCallback((currentBoard: Board): number => {
+    const availableMoves = getAvailableMoves(currentBoard);
     if (availableMoves.length === 0) return -1;
     
     const randomIndex = Math.floor(Math.random() * availableMoves.length);
@@ -713,13 +871,13 @@ export default function TicTacToe() {
       console.log(`🎮 === GAME ${gameNum} START ===`);
       
       // Reset game state
-      let testBoard: Board = Array(9).fill(null);
+      let testBoard: Board = createBoard(geometry);
       let testIsPlayerTurn = true;
       let testGameStatus: 'playing' | 'draw' | 'player-win' | 'ai-win' = 'playing';
       let moveCount = 0;
       
       // Play one complete game
-      while (testGameStatus === 'playing' && moveCount < 9) {
+      while (testGameStatus === 'playing' && moveCount < testBoard.length) {
         if (testIsPlayerTurn) {
           // Random player move
           const playerMove = makeRandomMove(testBoard);
@@ -748,7 +906,8 @@ export default function TicTacToe() {
           testIsPlayerTurn = false;
         } else {
           // AI move using perfect strategy
-          const aiMove = getBestMove(testBoard);
+          const aiMove = await getBestMove(testBoard, difficulty, 'O');
+          if (aiMove === null) break;
           testBoard[aiMove] = 'O';
           console.log(`🤖 Game ${gameNum}: AI moved to position ${aiMove}`);
           console.log(`📋 Board:`, testBoard);
@@ -806,18 +965,54 @@ export default function TicTacToe() {
     
     setIsAutoTesting(false);
     console.log(`🧪 === AUTO TEST COMPLETED ===`);
-  }, [isAutoTesting, makeRandomMove, getBestMove, checkWinner]);
+  }, [isAutoTesting, makeRandomMove, getBestMove, difficulty, geometry]);
 
-  const resetGame = () => {
-    setBoard(Array(9).fill(null));
+  const resetGame = (
+    level: Difficulty = difficulty,
+    nextMode: Mode = mode,
+    nextOpponent: Opponent = opponent,
+    nextSide: Side = playerSide
+  ) => {
+    cancelAi();
+    const startBoard = createBoard(BOARD_SIZES[nextMode === 'ultimate' ? '3x3' : nextMode]);
+    setBoard(startBoard);
+    setHistory(startHistory(startBoard));
     setGameStatus('playing');
     setDebugLogs([]);
     setMoveAnalysis([]);
     setTestResults([]);
+    setSuggestedCell(null);
+    setSuggestedUltimate(null);
+    setHintReason(null);
+    setReview(null);
+    setReviewPly(null);
+    setIsPlaying(false);
+
+    if (nextOpponent === 'watch') {
+      startSpectatorMatch();
+      return;
+    }
+
+    if (nextOpponent === 'human') {
+      console.log('👥 Hot-seat game - X moves first');
+      addDebugLog('Hot-seat game - X moves first');
+      setTurn('X');
+      setIsPlayerTurn(true);
+      const opening = createUltimate('X');
+      setUltimate(opening);
+      setUltimateHistory(startHistory(opening));
+      setLastUltimateMove(null);
+      return;
+    }
     
     // Alternate who starts first (opposite of last game)
     const aiStartsFirst = lastStarter === 'player';
     setIsPlayerTurn(!aiStartsFirst);
+    const nextAiSide = opponentOf(nextSide);
+    const opening = createUltimate(aiStartsFirst ? nextAiSide : nextSide);
+    setUltimate(opening);
+    setUltimateHistory(startHistory(opening));
+    setLastUltimateMove(null);
     
     if (aiStartsFirst) {
       console.log('🎲 AI starts first! (alternating turns)');
@@ -825,14 +1020,20 @@ export default function TicTacToe() {
       setLastStarter('ai');
       
       // AI makes first move after a short delay
-      setTimeout(() => {
+      schedule(() => {
         setIsThinking(true);
-        setTimeout(() => {
-          const emptyBoard = Array(9).fill(null);
-          const aiMove = getBestMove(emptyBoard);
+        schedule(async () => {
+          if (nextMode === 'ultimate') {
+            await ultimateAiTurn(opening, level);
+            return;
+          }
+          const emptyBoard = createBoard(BOARD_SIZES[nextMode]);
+          const aiMove = await getBestMove(emptyBoard, level, nextAiSide);
+          if (aiMove === null) return;
           const newBoard = [...emptyBoard];
-          newBoard[aiMove] = 'O';
+          newBoard[aiMove] = nextAiSide;
           setBoard(newBoard);
+          setHistory(prev => recordPly(prev, aiMove, newBoard));
           setIsPlayerTurn(true);
           setIsThinking(false);
         }, 800);
@@ -844,6 +1045,29 @@ export default function TicTacToe() {
     }
   };
 
+  const undoPly = mode === 'ultimate' ? undoTarget(ultimateHistory, humanMoves) : undoTarget(history, humanMoves);
+  const redoPly = mode === 'ultimate' ? redoTarget(ultimateHistory, humanMoves) : redoTarget(history, humanMoves);
+  const shownPly = mode === 'ultimate' ? ultimateHistory.ply : history.ply;
+  // X4 on the m,n,k boards, X4.2 (small board, cell) in ultimate
+  const moveLabels = mode === 'ultimate'
+    ? ultimateHistory.moves.map((move, index) => `${ultimateHistory.positions[index].turn}${move.board}.${move.cell}`)
+    : history.moves.map((move, index) => `${history.positions[index + 1][move]}${move}`);
+
+  // X's outcome with best play: known once the board is finished, from the last search otherwise
+  const shownWinner = checkWinner(shownBoard);
+  const shownEvaluation = shownWinner
+    ? (shownWinner === 'X' ? 1 : -1)
+    : isBoardFull(shownBoard) ? 0 : evaluation?.board === shownBoard ? evaluation.value : null;
+
+  // What the spectator panel says about the position on the board
+  const matchStatus = (): string => {
+    const winner = checkWinner(shownBoard);
+    if (winner) return `${winner} · ${AGENTS[agents[winner]].label} wins`;
+    if (isBoardFull(shownBoard)) return 'Draw';
+    const side = sideOnMove(shownBoard);
+    return `${side} · ${AGENTS[agents[side]].label} ${isThinking && ply === match.moves.length ? 'is thinking...' : 'to move'}`;
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-black">
       <div className="container mx-auto px-4 py-8 max-w-7xl">
@@ -854,11 +1078,17 @@ export default function TicTacToe() {
           </h1>
           <div className="flex gap-4 justify-center flex-wrap">
             <Link 
-              href="/gomoku"
+              href="/makhos"
               className="inline-flex items-center gap-2 px-6 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-semibold rounded-lg hover:bg-slate-800 dark:hover:bg-slate-100 transition-colors duration-200 cursor-pointer"
             >
               <span>หมากฮอส Mode</span>
             </Link>
+            <Link 
+              href="/five-in-a-row"
+              className="inline-flex items-center gap-2 px-6 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-semibold rounded-lg hover:bg-slate-800 dark:hover:bg-slate-100 transition-colors duration-200 cursor-pointer"
+            >
+              <span>Gomoku Mode</span>
+            </Link>
             <a 
               href="https://barronai.vercel.app/" 
               target="_blank" 
@@ -871,249 +1101,698 @@ export default function TicTacToe() {
               </svg>
             </a>
           </div>
+
+          {/* Opponent */}
+          <div className="mt-6">
+            <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+              {(Object.keys(OPPONENT_LABELS) as Opponent[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => changeOpponent(option)}
+                  className={`
+                    px-4 py-1.5 text-sm font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                    ${option === opponent ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                  `}
+                >
+                  {OPPONENT_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Difficulty */}
+          {opponent === 'ai' && (
+            <div className="mt-3 inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+              {DIFFICULTY_LEVELS.map(level => (
+                <button
+                  key={level}
+                  onClick={() => changeDifficulty(level)}
+                  className={`
+                    px-4 py-1.5 text-sm font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                    ${level === difficulty ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                  `}
+                >
+                  {DIFFICULTIES[level].label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Side */}
+          {opponent === 'ai' && (
+            <div className="mt-3 flex items-center justify-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+              <span>Play as</span>
+              <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+                {(['X', 'O'] as Side[]).map(side => (
+                  <button
+                    key={side}
+                    onClick={() => changeSide(side)}
+                    className={`
+                      px-4 py-1 text-sm font-bold rounded-md transition-colors duration-200 cursor-pointer
+                      ${side === playerSide ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                    `}
+                  >
+                    {side}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Take-backs */}
+          {!isWatching && (
+            <div className="mt-3 flex items-center justify-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+              <span>Take-backs</span>
+              <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+                {[true, false].map(allowed => (
+                  <button
+                    key={String(allowed)}
+                    onClick={() => changeTakeBacks(allowed)}
+                    className={`
+                      px-4 py-1 text-sm font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                      ${allowed === takeBacks ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                    `}
+                  >
+                    {allowed ? 'Allowed' : 'Off (rated)'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Evaluation bar */}
+          {assistAllowed && (isWatching || mode === '3x3') && (
+            <div className="mt-3 flex items-center justify-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+              <span>Evaluation bar</span>
+              <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+                {[true, false].map(shown => (
+                  <button
+                    key={String(shown)}
+                    onClick={() => setShowEvalBar(shown)}
+                    className={`
+                      px-4 py-1 text-sm font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                      ${shown === showEvalBar ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                    `}
+                  >
+                    {shown ? 'Show' : 'Hide'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Spectator agents and playback speed */}
+          {isWatching && (
+            <div className="mt-3 flex flex-col items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+              {(['X', 'O'] as Side[]).map(side => (
+                <div key={side} className="flex items-center gap-2">
+                  <span className="w-4 font-bold">{side}</span>
+                  <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+                    {AGENT_LIST.map(agent => (
+                      <button
+                        key={agent}
+                        onClick={() => changeAgent(side, agent)}
+                        className={`
+                          px-3 py-1 text-xs font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                          ${agent === agents[side] ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                        `}
+                      >
+                        {AGENTS[agent].label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <span>Speed</span>
+                <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+                  {PLAYBACK_SPEED_LIST.map(option => (
+                    <button
+                      key={option}
+                      onClick={() => changeSpeed(option)}
+                      className={`
+                        px-3 py-1 text-xs font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                        ${option === speed ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                      `}
+                    >
+                      {PLAYBACK_SPEEDS[option].label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Board size / ultimate mode */}
+          {!isWatching && (
+            <div className="mt-3">
+              <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1">
+                {MODES.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => changeMode(option)}
+                    className={`
+                      px-4 py-1.5 text-sm font-semibold rounded-md transition-colors duration-200 cursor-pointer
+                      ${option === mode ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                    `}
+                  >
+                    {modeLabel(option)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="grid lg:grid-cols-2 gap-8 max-w-6xl mx-auto">
           {/* Game Section */}
           <div className="space-y-6">
             {/* Game Status - Show on top for mobile */}
-            <div className="lg:hidden bg-white dark:bg-slate-800 rounded-xl p-6 border border-slate-200 dark:border-slate-700">
-              <div className="text-center">
-                {gameStatus === 'playing' && (
-                  <div className="space-y-4">
-                    {isPlayerTurn && !isThinking ? (
-                      <>
-                        <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-blue-50 dark:bg-blue-900/20 border-2 border-blue-500 dark:border-blue-400">
-                          <svg className="w-6 h-6 text-blue-600 dark:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
-                          </svg>
-                        </div>
-                        <div>
-                          <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1">Your Turn</p>
-                          <p className="text-base font-semibold text-slate-900 dark:text-white">Make your move</p>
-                        </div>
-                      </>
-                    ) : (
-                      <>
-                        <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-slate-50 dark:bg-slate-700/50 border-2 border-slate-300 dark:border-slate-600">
-                          <svg className="w-6 h-6 text-slate-600 dark:text-slate-400 animate-spin" fill="none" viewBox="0 0 24 24">
-                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                          </svg>
-                        </div>
-                        <div>
-                          <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1">AI Turn</p>
-                          <p className="text-base font-semibold text-slate-900 dark:text-white">Calculating...</p>
-                        </div>
-                      </>
-                    )}
-                  </div>
-                )}
-                {gameStatus === 'player-win' && (
-                  <div className="space-y-4">
-                    <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-green-50 dark:bg-green-900/20 border-2 border-green-500 dark:border-green-400">
-                      <svg className="w-6 h-6 text-green-600 dark:text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                      </svg>
+            {!isWatching && (
+              <div className="lg:hidden bg-white dark:bg-slate-800 rounded-xl p-6 border border-slate-200 dark:border-slate-700">
+                <div className="text-center">
+                  {gameStatus === 'playing' && (
+                    <div className="space-y-4">
+                      {isPlayerTurn && !isThinking ? (
+                        <>
+                          <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-blue-50 dark:bg-blue-900/20 border-2 border-blue-500 dark:border-blue-400">
+                            <svg className="w-6 h-6 text-blue-600 dark:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                            </svg>
+                          </div>
+                          <div>
+                            <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1">{isHotSeat ? `${sideToMove} to move` : 'Your Turn'}</p>
+                            <p className="text-base font-semibold text-slate-900 dark:text-white">Make your move</p>
+                          </div>
+                        </>
+                      ) : (
+                        <>
+                          <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-slate-50 dark:bg-slate-700/50 border-2 border-slate-300 dark:border-slate-600">
+                            <svg className="w-6 h-6 text-slate-600 dark:text-slate-400 animate-spin" fill="none" viewBox="0 0 24 24">
+                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                            </svg>
+                          </div>
+                          <div>
+                            <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1">AI Turn</p>
+                            <p className="text-base font-semibold text-slate-900 dark:text-white">Calculating...</p>
+                          </div>
+                        </>
+                      )}
                     </div>
-                    <div>
-                      <p className="text-xs font-medium text-green-600 dark:text-green-400 uppercase tracking-wider mb-1">Victory</p>
-                      <p className="text-base font-semibold text-slate-900 dark:text-white">You won!</p>
+                  )}
+                  {gameStatus === 'player-win' && (
+                    <div className="space-y-4">
+                      <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-green-50 dark:bg-green-900/20 border-2 border-green-500 dark:border-green-400">
+                        <svg className="w-6 h-6 text-green-600 dark:text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                        </svg>
+                      </div>
+                      <div>
+                        <p className="text-xs font-medium text-green-600 dark:text-green-400 uppercase tracking-wider mb-1">{isHotSeat ? 'Game Over' : 'Victory'}</p>
+                        <p className="text-base font-semibold text-slate-900 dark:text-white">{isHotSeat ? 'X wins!' : 'You won!'}</p>
+                      </div>
                     </div>
-                  </div>
-                )}
-                {gameStatus === 'ai-win' && (
-                  <div className="space-y-4">
-                    <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-red-50 dark:bg-red-900/20 border-2 border-red-500 dark:border-red-400">
-                      <svg className="w-6 h-6 text-red-600 dark:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                      </svg>
+                  )}
+                  {gameStatus === 'ai-win' && (
+                    <div className="space-y-4">
+                      <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-red-50 dark:bg-red-900/20 border-2 border-red-500 dark:border-red-400">
+                        <svg className="w-6 h-6 text-red-600 dark:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </div>
+                      <div>
+                        <p className="text-xs font-medium text-red-600 dark:text-red-400 uppercase tracking-wider mb-1">{isHotSeat ? 'Game Over' : 'Defeat'}</p>
+                        <p className="text-base font-semibold text-slate-900 dark:text-white">{isHotSeat ? 'O wins!' : 'AI won'}</p>
+                      </div>
                     </div>
-                    <div>
-                      <p className="text-xs font-medium text-red-600 dark:text-red-400 uppercase tracking-wider mb-1">Defeat</p>
-                      <p className="text-base font-semibold text-slate-900 dark:text-white">AI won</p>
+                  )}
+                  {gameStatus === 'draw' && (
+                    <div className="space-y-4">
+                      <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-amber-50 dark:bg-amber-900/20 border-2 border-amber-500 dark:border-amber-400">
+                        <svg className="w-6 h-6 text-amber-600 dark:text-amber-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 9h14M5 15h14" />
+                        </svg>
+                      </div>
+                      <div>
+                        <p className="text-xs font-medium text-amber-600 dark:text-amber-400 uppercase tracking-wider mb-1">Draw</p>
+                        <p className="text-base font-semibold text-slate-900 dark:text-white">It's a tie</p>
+                      </div>
                     </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Game Board */}
+            <div className="bg-white dark:bg-slate-800 rounded-xl p-6 md:p-8 border border-slate-200 dark:border-slate-700">
+              {/* X's share of the bar in blue, O's in red - the whole bar for a forced win */}
+              {evalBarShown && (
+                <div className="max-w-sm mx-auto mb-4">
+                  <div className="flex h-3 rounded-full overflow-hidden bg-red-500">
+                    <div className="bg-blue-500 transition-all duration-500" style={{ width: `${barShare(shownEvaluation ?? 0, 1) * 100}%` }} />
                   </div>
+                  <p className="mt-1 text-xs text-center text-slate-500 dark:text-slate-400">
+                    {shownEvaluation === null ? 'Evaluating…' : shownEvaluation === 0 ? 'Draw with best play' : `${shownEvaluation > 0 ? 'X' : 'O'} wins with best play`}
+                  </p>
+                </div>
+              )}
+              {mode === 'ultimate' && !isWatching ? (
+                <>
+                  <div className="grid grid-cols-3 gap-2 md:gap-3 max-w-md mx-auto">
+                    {ultimate.boards.map((small, boardIndex) => {
+                      const owner = ultimate.meta[boardIndex];
+                      // Highlight the boards the player is allowed to play in
+                      const playable = gameStatus === 'playing' && isPlayerTurn && !isThinking && !isClosed(ultimate, boardIndex) &&
+                        (ultimate.active === null || ultimate.active === boardIndex);
+                      return (
+                        <div
+                          key={boardIndex}
+                          className={`relative grid grid-cols-3 gap-1 p-1 rounded-lg ${playable ? 'bg-blue-50 dark:bg-blue-900/20 ring-2 ring-blue-500' : 'bg-slate-100 dark:bg-slate-700/30'}`}
+                        >
+                          {small.map((cell, cellIndex) => (
+                            <button
+                              key={cellIndex}
+                              onClick={() => makeUltimateMove({ board: boardIndex, cell: cellIndex })}
+                              disabled={!playable || cell !== null}
+                              className={`
+                                aspect-square text-lg md:text-xl font-bold rounded flex items-center justify-center transition-colors duration-200
+                                ${cell === 'X' ? 'bg-blue-500 text-white' : ''}
+                                ${cell === 'O' ? 'bg-red-500 text-white' : ''}
+                                ${!cell ? 'bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600' : ''}
+                                ${lastUltimateMove?.board === boardIndex && lastUltimateMove.cell === cellIndex ? 'ring-2 ring-amber-400' : ''}
+                                ${suggestedUltimate?.board === boardIndex && suggestedUltimate.cell === cellIndex ? 'ring-2 ring-emerald-400' : ''}
+                                ${playable && !cell ? 'cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-700' : 'cursor-not-allowed'}
+                              `}
+                            >
+                              {cell}
+                            </button>
+                          ))}
+                          {owner && (
+                            <div className={`absolute inset-0 flex items-center justify-center rounded-lg text-6xl md:text-7xl font-black text-white pointer-events-none ${owner === 'X' ? 'bg-blue-500/80' : 'bg-red-500/80'}`}>
+                              {owner}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <p className="mt-4 text-xs md:text-sm text-center text-slate-500 dark:text-slate-400">
+                    The cell you play sends the AI to that small board. Win a small board to claim its square - three in a row on the big board wins.
+                  </p>
+                </>
+              ) : (
+                <div className={`grid ${GRID_COLUMNS[geometry.size]} gap-2 md:gap-3 ${geometry.size === 3 ? 'max-w-sm' : 'max-w-md'} mx-auto`}>
+                  {shownBoard.map((cell, index) => (
+                    <button
+                      key={index}
+                      onClick={() => makeMove(index)}
+                      disabled={isWatching || !isPlayerTurn || gameStatus !== 'playing' || cell !== null || isThinking}
+                      className={`
+                        aspect-square ${geometry.size === 3 ? 'text-4xl md:text-5xl' : 'text-2xl md:text-3xl'} font-bold rounded-lg transition-all duration-200 flex items-center justify-center
+                        ${cell === 'X' ? 'bg-blue-500 text-white' : ''}
+                        ${cell === 'O' ? 'bg-red-500 text-white' : ''}
+                        ${!cell ? 'bg-slate-50 dark:bg-slate-700/50 border-2 border-slate-200 dark:border-slate-600' : ''}
+                        ${suggestedCell === index ? 'ring-4 ring-emerald-400' : ''}
+                        ${isWatching && ply > 0 && match.moves[ply - 1] === index ? 'ring-4 ring-amber-400' : ''}
+                        ${reviewPly !== null && review?.[reviewPly].best === index ? 'ring-4 ring-emerald-400' : ''}
+                        ${reviewPly !== null && review?.[reviewPly].played === index && review[reviewPly].quality !== 'best' ? 'ring-4 ring-red-400' : ''}
+                        ${isWatching ? 'cursor-default' : !isPlayerTurn || gameStatus !== 'playing' || isThinking ? 'cursor-not-allowed opacity-40' : !cell ? 'cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-700 hover:border-slate-300 dark:hover:border-slate-500' : ''}
+                      `}
+                    >
+                      {cell}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Controls */}
+            {isWatching ? (
+              <div className="flex gap-2 md:gap-3 justify-center flex-wrap">
+                <button
+                  onClick={() => jumpTo(0)}
+                  disabled={ply === 0}
+                  className="px-5 md:px-6 py-2.5 md:py-3 bg-slate-600 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-xl font-bold transition-all duration-200 shadow-lg hover:scale-105 cursor-pointer text-sm md:text-base"
+                >
+                  ⏮
+                </button>
+                <button
+                  onClick={stepBack}
+                  disabled={ply === 0}
+                  className="px-5 md:px-6 py-2.5 md:py-3 bg-slate-600 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-xl font-bold transition-all duration-200 shadow-lg hover:scale-105 cursor-pointer text-sm md:text-base"
+                >
+                  ◀ Back
+                </button>
+                <button
+                  onClick={() => (isPlaying ? pauseMatch() : playMatch(match, ply))}
+                  disabled={!isPlaying && ply === match.moves.length && isFinished(shownBoard)}
+                  className="px-5 md:px-6 py-2.5 md:py-3 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-xl font-bold transition-all duration-200 shadow-lg hover:scale-105 cursor-pointer text-sm md:text-base"
+                >
+                  {isPlaying ? '⏸ Pause' : '▶ Play'}
+                </button>
+                <button
+                  onClick={stepForward}
+                  disabled={isThinking || (ply === match.moves.length && isFinished(shownBoard))}
+                  className="px-5 md:px-6 py-2.5 md:py-3 bg-slate-600 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-xl font-bold transition-all duration-200 shadow-lg hover:scale-105 cursor-pointer text-sm md:text-base"
+                >
+                  Step ▶
+                </button>
+                <button
+                  onClick={() => resetGame()}
+                  className="px-5 md:px-6 py-2.5 md:py-3 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-xl font-bold transition-all duration-200 shadow-lg hover:scale-105 cursor-pointer text-sm md:text-base"
+                >
+                  New Match
+                </button>
+              </div>
+            ) : (
+              <div className="flex gap-3 md:gap-4 justify-center flex-wrap">
+                <button
+                  onClick={() => resetGame()}
+                  className="px-6 md:px-8 py-2.5 md:py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-bold transition-all duration-200 shadow-lg hover:shadow-blue-500/25 hover:scale-105 cursor-pointer text-sm md:text-base"
+                >
+                  New Game
+                </button>
+                {takeBacks && (
+                  <>
+                    <button onClick={undo} disabled={undoPly === null} className="px-6 md:px-8 py-2.5 md:py-3 bg-slate-600 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-xl font-bold transition-all duration-200 shadow-lg hover:shadow-slate-500/25 hover:scale-105 cursor-pointer text-sm md:text-base">
+                      ↩ Undo
+                    </button>
+                    <button onClick={redo} disabled={redoPly === null} className="px-6 md:px-8 py-2.5 md:py-3 bg-slate-600 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-xl font-bold transition-all duration-200 shadow-lg hover:shadow-slate-500/25 hover:scale-105 cursor-pointer text-sm md:text-base">
+                      Redo ↪
+                    </button>
+                  </>
                 )}
-                {gameStatus === 'draw' && (
-                  <div className="space-y-4">
-                    <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-amber-50 dark:bg-amber-900/20 border-2 border-amber-500 dark:border-amber-400">
-                      <svg className="w-6 h-6 text-amber-600 dark:text-amber-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 9h14M5 15h14" />
-                      </svg>
-                    </div>
-                    <div>
-                      <p className="text-xs font-medium text-amber-600 dark:text-amber-400 uppercase tracking-wider mb-1">Draw</p>
-                      <p className="text-base font-semibold text-slate-900 dark:text-white">It's a tie</p>
+                {assistAllowed && (
+                  <button
+                    onClick={suggestMove}
+                    disabled={gameStatus !== 'playing' || !isPlayerTurn || isThinking}
+                    className="px-6 md:px-8 py-2.5 md:py-3 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-xl font-bold transition-all duration-200 shadow-lg hover:shadow-emerald-500/25 hover:scale-105 cursor-pointer text-sm md:text-base"
+                  >
+                    Hint
+                  </button>
+                )}
+                <button
+                  onClick={resetStats}
+                  className="px-6 md:px-8 py-2.5 md:py-3 bg-slate-600 hover:bg-slate-700 text-white rounded-xl font-bold transition-all duration-200 shadow-lg hover:shadow-slate-500/25 hover:scale-105 cursor-pointer text-sm md:text-base"
+                >
+                  Reset Stats
+                </button>
+              </div>
+            )}
+
+            {!isWatching && hintReason && (
+              <p className="text-sm text-center font-medium text-emerald-700 dark:text-emerald-400">💡 {hintReason}</p>
+            )}
+
+            {/* Move list - plies after the shown one are greyed out until they are redone or replaced */}
+            {!isWatching && moveLabels.length > 0 && (
+              <div className="bg-white dark:bg-slate-800 rounded-xl p-4 border border-slate-200 dark:border-slate-700">
+                <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">Moves</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {moveLabels.map((label, index) => (
+                    <span
+                      key={index}
+                      className={`
+                        px-2 py-1 text-xs font-semibold rounded-md tabular-nums
+                        ${index + 1 === shownPly ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : index < shownPly ? 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300' : 'text-slate-400 dark:text-slate-500 line-through'}
+                      `}
+                    >
+                      {index + 1}. {label}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Game record - export and import, m,n,k boards only */}
+            {!isWatching && mode !== 'ultimate' && (
+              <div className="bg-white dark:bg-slate-800 rounded-xl p-4 border border-slate-200 dark:border-slate-700 space-y-3">
+                <div className="flex items-center justify-between gap-2 flex-wrap">
+                  <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Game Record</p>
+                  <div className="flex gap-2">
+                    <button onClick={copyRecord} className="px-3 py-1 text-xs font-semibold rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors cursor-pointer">
+                      Copy
+                    </button>
+                    <button onClick={downloadRecord} className="px-3 py-1 text-xs font-semibold rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors cursor-pointer">
+                      Download
+                    </button>
+                    <button
+                      onClick={() => setImportText(importText === null ? '' : null)}
+                      className="px-3 py-1 text-xs font-semibold rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors cursor-pointer"
+                    >
+                      Import
+                    </button>
+                  </div>
+                </div>
+                {importText !== null && (
+                  <div className="space-y-2">
+                    <textarea
+                      value={importText}
+                      onChange={event => setImportText(event.target.value)}
+                      placeholder={'[Board "3x3"]\n[Starter "X"]\n\n1. b2 a3 2. c1 ...'}
+                      rows={5}
+                      className="w-full p-2 text-xs font-mono rounded-md border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100"
+                    />
+                    <div className="flex gap-2 items-center">
+                      <button onClick={() => importRecord(importText)} className="px-3 py-1 text-xs font-semibold rounded-md bg-blue-600 hover:bg-blue-700 text-white transition-colors cursor-pointer">
+                        Load
+                      </button>
+                      <label className="px-3 py-1 text-xs font-semibold rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors cursor-pointer">
+                        From file…
+                        <input type="file" accept=".pgn,.txt" className="hidden" onChange={event => importFile(event.target.files?.[0])} />
+                      </label>
                     </div>
                   </div>
                 )}
+                {recordMessage && (
+                  <p className={`text-xs ${recordMessage.isError ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`}>{recordMessage.text}</p>
+                )}
               </div>
-            </div>
+            )}
 
-            {/* Game Board */}
-            <div className="bg-white dark:bg-slate-800 rounded-xl p-6 md:p-8 border border-slate-200 dark:border-slate-700">
-              <div className="grid grid-cols-3 gap-2 md:gap-3 max-w-sm mx-auto">
-                {board.map((cell, index) => (
+            {/* Post-game analysis - 3×3 only, where minimax solves every position */}
+            {!isWatching && mode === '3x3' && gameStatus !== 'playing' && history.ply > 0 && (
+              <div className="bg-white dark:bg-slate-800 rounded-xl p-4 border border-slate-200 dark:border-slate-700 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Analysis</p>
                   <button
-                    key={index}
-                    onClick={() => makeMove(index)}
-                    disabled={!isPlayerTurn || gameStatus !== 'playing' || cell !== null || isThinking}
-                    className={`
-                      aspect-square text-4xl md:text-5xl font-bold rounded-lg transition-all duration-200 flex items-center justify-center
-                      ${cell === 'X' ? 'bg-blue-500 text-white' : ''}
-                      ${cell === 'O' ? 'bg-red-500 text-white' : ''}
-                      ${!cell ? 'bg-slate-50 dark:bg-slate-700/50 border-2 border-slate-200 dark:border-slate-600' : ''}
-                      ${!isPlayerTurn || gameStatus !== 'playing' || isThinking ? 'cursor-not-allowed opacity-40' : !cell ? 'cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-700 hover:border-slate-300 dark:hover:border-slate-500' : ''}
-                    `}
+                    onClick={analyseGame}
+                    disabled={analysedPlies !== null}
+                    className="px-3 py-1 text-xs font-semibold rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed text-white transition-colors cursor-pointer"
                   >
-                    {cell}
+                    {analysedPlies !== null ? `Analysing ${analysedPlies}/${history.ply}…` : review ? 'Analyse Again' : 'Analyse Game'}
                   </button>
-                ))}
+                </div>
+                {review && (
+                  <>
+                    {/* Outcome with best play after each ply, from X's side: win on top, loss at the bottom */}
+                    <svg viewBox="0 0 300 60" className="w-full h-16 rounded-md bg-slate-50 dark:bg-slate-900">
+                      <line x1="0" y1="30" x2="300" y2="30" className="stroke-slate-300 dark:stroke-slate-600" strokeDasharray="4 4" />
+                      <polyline
+                        points={graphPoints([0, ...review.map(entry => entry.evaluation)], 300, 60, 1)}
+                        fill="none"
+                        className="stroke-blue-500"
+                        strokeWidth={2}
+                      />
+                      {review.filter(entry => entry.lostTheDraw).map(entry => (
+                        <circle key={entry.ply} cx={((entry.ply + 1) * 300) / review.length} cy={30 - entry.evaluation * 30} r={4} className="fill-red-500" />
+                      ))}
+                    </svg>
+                    <div className="space-y-1">
+                      {review.filter(entry => humanMoves(entry.ply)).map(entry => (
+                        <button
+                          key={entry.ply}
+                          onClick={() => setReviewPly(reviewPly === entry.ply ? null : entry.ply)}
+                          className={`
+                            w-full flex items-center justify-between gap-2 px-2 py-1 text-xs rounded-md tabular-nums transition-colors cursor-pointer
+                            ${entry.ply === reviewPly ? 'bg-slate-100 dark:bg-slate-700' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'}
+                          `}
+                        >
+                          <span className="font-semibold text-slate-900 dark:text-white">
+                            {entry.ply + 1}. {moveLabels[entry.ply]}
+                            <span className={`ml-1 ${QUALITY_COLOURS[entry.quality]}`}>{QUALITIES[entry.quality].symbol}</span>
+                          </span>
+                          <span className="text-slate-500 dark:text-slate-400">
+                            {entry.lostTheDraw && <span className="mr-2 font-semibold text-red-600 dark:text-red-400">Lost the draw</span>}
+                            {entry.quality === 'best' ? QUALITIES.best.label : `${QUALITIES[entry.quality].label} - best ${moveLabels[entry.ply][0]}${entry.best}`}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">Click a move to see the position it was played from - the engine&apos;s move is ringed in green.</p>
+                  </>
+                )}
               </div>
-            </div>
-
-            {/* Controls */}
-            <div className="flex gap-3 md:gap-4 justify-center flex-wrap">
-              <button
-                onClick={resetGame}
-                className="px-6 md:px-8 py-2.5 md:py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-bold transition-all duration-200 shadow-lg hover:shadow-blue-500/25 hover:scale-105 cursor-pointer text-sm md:text-base"
-              >
-                New Game
-              </button>
-              <button
-                onClick={resetStats}
-                className="px-6 md:px-8 py-2.5 md:py-3 bg-slate-600 hover:bg-slate-700 text-white rounded-xl font-bold transition-all duration-200 shadow-lg hover:shadow-slate-500/25 hover:scale-105 cursor-pointer text-sm md:text-base"
-              >
-                Reset Stats
-              </button>
-            </div>
+            )}
           </div>
 
           {/* Stats & Status Section */}
           <div className="space-y-6">
-            {/* Score Board */}
-            <div className="bg-white dark:bg-slate-800 rounded-xl p-5 md:p-6 border border-slate-200 dark:border-slate-700">
-              <div className="grid grid-cols-3 gap-3 md:gap-4">
-                <div className="text-center">
-                  <div className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">You</div>
-                  <div className="text-3xl md:text-4xl font-bold text-slate-900 dark:text-white">{playerScore}</div>
-                </div>
-                <div className="text-center border-x border-slate-200 dark:border-slate-700">
-                  <div className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">เสมอ</div>
-                  <div className="text-3xl md:text-4xl font-bold text-slate-900 dark:text-white">{draws}</div>
-                </div>
-                <div className="text-center">
-                  <div className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">AI</div>
-                  <div className="text-3xl md:text-4xl font-bold text-slate-900 dark:text-white">{aiScore}</div>
+            {isWatching ? (
+              <div className="bg-white dark:bg-slate-800 rounded-xl p-5 md:p-6 border border-slate-200 dark:border-slate-700 space-y-4">
+                <div className="flex justify-between items-center gap-3 pb-3 border-b border-slate-200 dark:border-slate-700">
+                  <span className="text-sm md:text-base font-semibold text-slate-900 dark:text-white">
+                    X · {AGENTS[agents.X].label} vs O · {AGENTS[agents.O].label}
+                  </span>
+                  <span className="text-xs md:text-sm text-slate-600 dark:text-slate-400 tabular-nums">Ply {ply}/{match.moves.length}</span>
                 </div>
+                <p className="text-base md:text-lg font-semibold text-center text-slate-900 dark:text-white">{matchStatus()}</p>
+                {/* Every recorded ply - click one to show the board after it */}
+                {match.moves.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {match.moves.map((move, index) => (
+                      <button
+                        key={index}
+                        onClick={() => jumpTo(index + 1)}
+                        className={`
+                          px-2 py-1 text-xs font-semibold rounded-md tabular-nums transition-colors duration-200 cursor-pointer
+                          ${index + 1 === ply ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'}
+                        `}
+                      >
+                        {index + 1}. {index % 2 === 0 ? 'X' : 'O'}{move}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
-            </div>
+            ) : (
+              <>
+                {/* Score Board */}
+                <div className="bg-white dark:bg-slate-800 rounded-xl p-5 md:p-6 border border-slate-200 dark:border-slate-700">
+                  <div className="grid grid-cols-3 gap-3 md:gap-4">
+                    <div className="text-center">
+                      <div className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">{isHotSeat ? 'X' : `You (${playerSide})`}</div>
+                      <div className="text-3xl md:text-4xl font-bold text-slate-900 dark:text-white">{playerScore}</div>
+                    </div>
+                    <div className="text-center border-x border-slate-200 dark:border-slate-700">
+                      <div className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">เสมอ</div>
+                      <div className="text-3xl md:text-4xl font-bold text-slate-900 dark:text-white">{draws}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">{isHotSeat ? 'O' : `AI (${aiSide})`}</div>
+                      <div className="text-3xl md:text-4xl font-bold text-slate-900 dark:text-white">{aiScore}</div>
+                    </div>
+                  </div>
+                </div>
 
-            {/* Game Status */}
-            <div className="hidden lg:block bg-white dark:bg-slate-800 rounded-xl p-6 md:p-8 border border-slate-200 dark:border-slate-700">
-              <div className="text-center">
-                {gameStatus === 'playing' && (
-                  <div className="space-y-4">
-                    {isPlayerTurn && !isThinking ? (
-                      <>
-                        <div className="inline-flex items-center justify-center w-12 h-12 md:w-14 md:h-14 rounded-full bg-blue-50 dark:bg-blue-900/20 border-2 border-blue-500 dark:border-blue-400">
-                          <svg className="w-6 h-6 md:w-7 md:h-7 text-blue-600 dark:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                {/* Game Status */}
+                <div className="hidden lg:block bg-white dark:bg-slate-800 rounded-xl p-6 md:p-8 border border-slate-200 dark:border-slate-700">
+                  <div className="text-center">
+                    {gameStatus === 'playing' && (
+                      <div className="space-y-4">
+                        {isPlayerTurn && !isThinking ? (
+                          <>
+                            <div className="inline-flex items-center justify-center w-12 h-12 md:w-14 md:h-14 rounded-full bg-blue-50 dark:bg-blue-900/20 border-2 border-blue-500 dark:border-blue-400">
+                              <svg className="w-6 h-6 md:w-7 md:h-7 text-blue-600 dark:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                              </svg>
+                            </div>
+                            <div>
+                              <p className="text-xs md:text-sm font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1">{isHotSeat ? `${sideToMove} to move` : 'Your Turn'}</p>
+                              <p className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">Make your move</p>
+                            </div>
+                          </>
+                        ) : (
+                          <>
+                            <div className="inline-flex items-center justify-center w-12 h-12 md:w-14 md:h-14 rounded-full bg-slate-50 dark:bg-slate-700/50 border-2 border-slate-300 dark:border-slate-600">
+                              <svg className="w-6 h-6 md:w-7 md:h-7 text-slate-600 dark:text-slate-400 animate-spin" fill="none" viewBox="0 0 24 24">
+                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                              </svg>
+                            </div>
+                            <div>
+                              <p className="text-xs md:text-sm font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1">AI Turn</p>
+                              <p className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">Calculating...</p>
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    )}
+                    {gameStatus === 'player-win' && (
+                      <div className="space-y-4">
+                        <div className="inline-flex items-center justify-center w-12 h-12 md:w-14 md:h-14 rounded-full bg-green-50 dark:bg-green-900/20 border-2 border-green-500 dark:border-green-400">
+                          <svg className="w-6 h-6 md:w-7 md:h-7 text-green-600 dark:text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                           </svg>
                         </div>
                         <div>
-                          <p className="text-xs md:text-sm font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1">Your Turn</p>
-                          <p className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">Make your move</p>
+                          <p className="text-xs md:text-sm font-medium text-green-600 dark:text-green-400 uppercase tracking-wider mb-1">{isHotSeat ? 'Game Over' : 'Victory'}</p>
+                          <p className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">{isHotSeat ? 'X wins!' : 'You won!'}</p>
                         </div>
-                      </>
-                    ) : (
-                      <>
-                        <div className="inline-flex items-center justify-center w-12 h-12 md:w-14 md:h-14 rounded-full bg-slate-50 dark:bg-slate-700/50 border-2 border-slate-300 dark:border-slate-600">
-                          <svg className="w-6 h-6 md:w-7 md:h-7 text-slate-600 dark:text-slate-400 animate-spin" fill="none" viewBox="0 0 24 24">
-                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </div>
+                    )}
+                    {gameStatus === 'ai-win' && (
+                      <div className="space-y-4">
+                        <div className="inline-flex items-center justify-center w-12 h-12 md:w-14 md:h-14 rounded-full bg-red-50 dark:bg-red-900/20 border-2 border-red-500 dark:border-red-400">
+                          <svg className="w-6 h-6 md:w-7 md:h-7 text-red-600 dark:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                           </svg>
                         </div>
                         <div>
-                          <p className="text-xs md:text-sm font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1">AI Turn</p>
-                          <p className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">Calculating...</p>
+                          <p className="text-xs md:text-sm font-medium text-red-600 dark:text-red-400 uppercase tracking-wider mb-1">{isHotSeat ? 'Game Over' : 'Defeat'}</p>
+                          <p className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">{isHotSeat ? 'O wins!' : 'AI won'}</p>
                         </div>
-                      </>
+                      </div>
+                    )}
+                    {gameStatus === 'draw' && (
+                      <div className="space-y-4">
+                        <div className="inline-flex items-center justify-center w-12 h-12 md:w-14 md:h-14 rounded-full bg-amber-50 dark:bg-amber-900/20 border-2 border-amber-500 dark:border-amber-400">
+                          <svg className="w-6 h-6 md:w-7 md:h-7 text-amber-600 dark:text-amber-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 9h14M5 15h14" />
+                          </svg>
+                        </div>
+                        <div>
+                          <p className="text-xs md:text-sm font-medium text-amber-600 dark:text-amber-400 uppercase tracking-wider mb-1">Draw</p>
+                          <p className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">It's a tie</p>
+                        </div>
+                      </div>
                     )}
                   </div>
-                )}
-                {gameStatus === 'player-win' && (
-                  <div className="space-y-4">
-                    <div className="inline-flex items-center justify-center w-12 h-12 md:w-14 md:h-14 rounded-full bg-green-50 dark:bg-green-900/20 border-2 border-green-500 dark:border-green-400">
-                      <svg className="w-6 h-6 md:w-7 md:h-7 text-green-600 dark:text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                      </svg>
-                    </div>
-                    <div>
-                      <p className="text-xs md:text-sm font-medium text-green-600 dark:text-green-400 uppercase tracking-wider mb-1">Victory</p>
-                      <p className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">You won!</p>
-                    </div>
-                  </div>
-                )}
-                {gameStatus === 'ai-win' && (
-                  <div className="space-y-4">
-                    <div className="inline-flex items-center justify-center w-12 h-12 md:w-14 md:h-14 rounded-full bg-red-50 dark:bg-red-900/20 border-2 border-red-500 dark:border-red-400">
-                      <svg className="w-6 h-6 md:w-7 md:h-7 text-red-600 dark:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                      </svg>
-                    </div>
-                    <div>
-                      <p className="text-xs md:text-sm font-medium text-red-600 dark:text-red-400 uppercase tracking-wider mb-1">Defeat</p>
-                      <p className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">AI won</p>
+                </div>
+
+                {/* Statistics */}
+                <div className="bg-white dark:bg-slate-800 rounded-xl p-5 md:p-6 border border-slate-200 dark:border-slate-700">
+                  <div className="space-y-3 md:space-y-4">
+                    <div className="flex justify-between items-center pb-3 border-b border-slate-200 dark:border-slate-700">
+                      <span className="text-xs md:text-sm text-slate-600 dark:text-slate-400">Total Games</span>
+                      <span className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">
+                        {playerScore + aiScore + draws}
+                      </span>
                     </div>
-                  </div>
-                )}
-                {gameStatus === 'draw' && (
-                  <div className="space-y-4">
-                    <div className="inline-flex items-center justify-center w-12 h-12 md:w-14 md:h-14 rounded-full bg-amber-50 dark:bg-amber-900/20 border-2 border-amber-500 dark:border-amber-400">
-                      <svg className="w-6 h-6 md:w-7 md:h-7 text-amber-600 dark:text-amber-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 9h14M5 15h14" />
-                      </svg>
+                    <div className="flex justify-between items-center pb-3 border-b border-slate-200 dark:border-slate-700">
+                      <span className="text-xs md:text-sm text-slate-600 dark:text-slate-400">{isHotSeat ? 'X Win Rate' : 'Your Win Rate'}</span>
+                      <span className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">
+                        {playerScore + aiScore + draws > 0 
+                          ? `${((playerScore / (playerScore + aiScore + draws)) * 100).toFixed(0)}%`
+                          : '0%'
+                        }
+                      </span>
                     </div>
-                    <div>
-                      <p className="text-xs md:text-sm font-medium text-amber-600 dark:text-amber-400 uppercase tracking-wider mb-1">Draw</p>
-                      <p className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">It's a tie</p>
+                    <div className="flex justify-between items-center pb-3 border-b border-slate-200 dark:border-slate-700">
+                      <span className="text-xs md:text-sm text-slate-600 dark:text-slate-400">Draw Rate</span>
+                      <span className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">
+                        {playerScore + aiScore + draws > 0 
+                          ? `${((draws / (playerScore + aiScore + draws)) * 100).toFixed(0)}%`
+                          : '0%'
+                        }
+                      </span>
                     </div>
+                    {/* Score line per difficulty level in this mode: You - Draws - AI */}
+                    {!isHotSeat && DIFFICULTY_LEVELS.map(level => (
+                      <div key={level} className="flex justify-between items-center">
+                        <span className={`text-xs md:text-sm ${level === difficulty ? 'font-semibold text-slate-900 dark:text-white' : 'text-slate-600 dark:text-slate-400'}`}>
+                          {DIFFICULTIES[level].label}
+                        </span>
+                        <span className="text-sm md:text-base font-semibold text-slate-900 dark:text-white tabular-nums">
+                          {scores[mode][level].playerScore} - {scores[mode][level].draws} - {scores[mode][level].aiScore}
+                        </span>
+                      </div>
+                    ))}
                   </div>
-                )}
-              </div>
-            </div>
-
-            {/* Statistics */}
-            <div className="bg-white dark:bg-slate-800 rounded-xl p-5 md:p-6 border border-slate-200 dark:border-slate-700">
-              <div className="space-y-3 md:space-y-4">
-                <div className="flex justify-between items-center pb-3 border-b border-slate-200 dark:border-slate-700">
-                  <span className="text-xs md:text-sm text-slate-600 dark:text-slate-400">Total Games</span>
-                  <span className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">
-                    {playerScore + aiScore + draws}
-                  </span>
                 </div>
-                <div className="flex justify-between items-center pb-3 border-b border-slate-200 dark:border-slate-700">
-                  <span className="text-xs md:text-sm text-slate-600 dark:text-slate-400">Your Win Rate</span>
-                  <span className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">
-                    {playerScore + aiScore + draws > 0 
-                      ? `${((playerScore / (playerScore + aiScore + draws)) * 100).toFixed(0)}%`
-                      : '0%'
-                    }
-                  </span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-xs md:text-sm text-slate-600 dark:text-slate-400">Draw Rate</span>
-                  <span className="text-base md:text-lg font-semibold text-slate-900 dark:text-white">
-                    {playerScore + aiScore + draws > 0 
-                      ? `${((draws / (playerScore + aiScore + draws)) * 100).toFixed(0)}%`
-                      : '0%'
-                    }
-                  </span>
-                </div>
-              </div>
-            </div>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,114 @@
+// Post-game review - grades each move against the engine's scores for the position it was played from,
+// no React / no side effects. The pages run the searches in the worker and hand the scores in here
+
+import type { MoveAnalysis, Outcome, Side } from './tictactoe';
+import type { Color, Move } from './makhos';
+import { type RootEvaluation, MAN_SCORE } from './makhos-ai';
+import { sameMove } from './makhos-tt';
+
+export type MoveQuality = 'best' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export const QUALITIES: Record<MoveQuality, { label: string; symbol: string }> = {
+  best: { label: 'Best', symbol: '✓' },
+  inaccuracy: { label: 'Inaccuracy', symbol: '?!' },
+  mistake: { label: 'Mistake', symbol: '?' },
+  blunder: { label: 'Blunder', symbol: '??' }
+};
+
+export interface PlyReview<Move> {
+  ply: number;
+  played: Move;
+  best: Move;            // The engine's choice - the played move when it was one of the best
+  quality: MoveQuality;
+  evaluation: number;    // Position after the move, from X's / White's point of view, for the graph
+}
+
+// ---------------------------------------------------------------------------------------------
+// Tic-tac-toe: exact minimax scores, 10 - depth for a win, 0 for a draw, depth - 10 for a loss
+
+// getMinimaxMove scores sit on a smaller scale than the Barron search, so outcomeOf from the engine does not apply
+const minimaxOutcome = (score: number): Outcome => (score > 0 ? 'win' : score < 0 ? 'loss' : 'draw');
+
+const OUTCOME_RANK: Record<Outcome, number> = { loss: 0, draw: 1, win: 2 };
+
+// 1 when X wins, 0 for a draw, -1 when O wins - `outcome` is for `side`
+const forX = (outcome: Outcome, side: Side): number => (side === 'X' ? OUTCOME_RANK[outcome] - 1 : 1 - OUTCOME_RANK[outcome]);
+
+export interface TicTacToeReview extends PlyReview<number> {
+  lostTheDraw: boolean;  // A drawn position turned into a lost one with this move
+}
+
+// `analysis` scores every empty cell for `side`, as getMinimaxMove does
+export function reviewTicTacToePly(ply: number, analysis: MoveAnalysis[], played: number, side: Side): TicTacToeReview {
+  const best = analysis.reduce((top, entry) => (entry.score > top.score ? entry : top));
+  const playedScore = analysis.find(entry => entry.position === played)?.score ?? best.score;
+  const bestOutcome = minimaxOutcome(best.score);
+  const playedOutcome = minimaxOutcome(playedScore);
+
+  // A slower win or a quicker loss is only inaccurate; giving away half a point is a mistake, a whole one a blunder
+  const drop = OUTCOME_RANK[bestOutcome] - OUTCOME_RANK[playedOutcome];
+  const quality: MoveQuality =
+    drop === 0 ? (playedScore === best.score ? 'best' : 'inaccuracy') : drop === 1 && bestOutcome === 'win' ? 'mistake' : 'blunder';
+
+  return {
+    ply,
+    played,
+    best: playedScore === best.score ? played : best.position,
+    quality,
+    evaluation: forX(playedOutcome, side),
+    lostTheDraw: bestOutcome === 'draw' && playedOutcome === 'loss'
+  };
+}
+
+// The position's outcome with best play from both sides, from X's point of view - `side` is to move
+export function ticTacToeEvaluation(analysis: MoveAnalysis[], side: Side): number {
+  const best = analysis.reduce((top, entry) => (entry.score > top.score ? entry : top));
+  return forX(minimaxOutcome(best.score), side);
+}
+
+// ---------------------------------------------------------------------------------------------
+// Makhos: search scores from evaluateBoard, a man is worth MAN_SCORE
+
+// Points given away against the engine's best move before a move counts as each grade - dropping a whole man is a blunder
+export const MAKHOS_LOSS_THRESHOLDS: Record<Exclude<MoveQuality, 'best'>, number> = {
+  inaccuracy: MAN_SCORE / 4,
+  mistake: MAN_SCORE / 2,
+  blunder: MAN_SCORE
+};
+
+export function gradeLoss(loss: number): MoveQuality {
+  if (loss >= MAKHOS_LOSS_THRESHOLDS.blunder) return 'blunder';
+  if (loss >= MAKHOS_LOSS_THRESHOLDS.mistake) return 'mistake';
+  if (loss >= MAKHOS_LOSS_THRESHOLDS.inaccuracy) return 'inaccuracy';
+  return 'best';
+}
+
+// `evaluations` are the root scores of one search for `side`, noise-free, so rawScore is compared
+export function reviewMakhosPly(ply: number, evaluations: RootEvaluation[], played: Move, side: Color): PlyReview<Move> {
+  const best = evaluations.reduce((top, entry) => (entry.rawScore > top.rawScore ? entry : top));
+  const playedScore = evaluations.find(entry => sameMove(entry.move, played))?.rawScore ?? best.rawScore;
+  const quality = gradeLoss(best.rawScore - playedScore);
+
+  return {
+    ply,
+    played,
+    best: quality === 'best' ? played : best.move,
+    quality,
+    evaluation: side === 'W' ? playedScore : -playedScore
+  };
+}
+
+// SVG polyline points for an evaluation graph: one point per ply, values clamped to ±`range`, positive upwards
+export function graphPoints(values: number[], width: number, height: number, range: number): string {
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  return values
+    .map((value, index) => {
+      const clamped = Math.max(-range, Math.min(range, value));
+      return `${(index * step).toFixed(1)},${((1 - clamped / range) * height / 2).toFixed(1)}`;
+    })
+    .join(' ');
+}
+
+// Share of an evaluation bar for X / White - half when level, all of it at +`range` or more
+export const barShare = (evaluation: number, range: number): number =>
+  0.5 + Math.max(-range, Math.min(range, evaluation)) / range / 2;
@@ -0,0 +1,269 @@
+// Gomoku (five in a row) on a 15x15 board - rules and Barron AI threat-space search, no React / no side effects
+
+export type Stone = 'X' | 'O';
+export type Cell = Stone | null;
+export type Board = Cell[];
+
+export const SIZE = 15;
+export const CENTER = Math.floor(SIZE / 2) * SIZE + Math.floor(SIZE / 2);
+
+const DIRECTIONS = [[0, 1], [1, 0], [1, 1], [1, -1]];
+
+export const createBoard = (): Board => Array(SIZE * SIZE).fill(null);
+export const opponentOf = (stone: Stone): Stone => (stone === 'X' ? 'O' : 'X');
+
+const rowOf = (index: number) => Math.floor(index / SIZE);
+const colOf = (index: number) => index % SIZE;
+const indexAt = (row: number, col: number): number =>
+  row < 0 || row >= SIZE || col < 0 || col >= SIZE ? -1 : row * SIZE + col;
+
+// Cells of the line through `index` along (dr, dc), from `reach` cells behind it to `reach` cells ahead
+function lineCells(index: number, dr: number, dc: number, reach: number): number[] {
+  const cells: number[] = [];
+  for (let step = -reach; step <= reach; step++) {
+    const cell = indexAt(rowOf(index) + dr * step, colOf(index) + dc * step);
+    if (cell !== -1) cells.push(cell);
+  }
+  return cells;
+}
+
+// Unbroken stones of `stone` through `index` along one direction, counting `index` itself as that stone
+function runThrough(board: Board, index: number, stone: Stone, dr: number, dc: number): number[] {
+  const run = [index];
+  for (const sign of [1, -1]) {
+    let row = rowOf(index) + dr * sign;
+    let col = colOf(index) + dc * sign;
+    while (indexAt(row, col) !== -1 && board[indexAt(row, col)] === stone) {
+      run.push(indexAt(row, col));
+      row += dr * sign;
+      col += dc * sign;
+    }
+  }
+  return run;
+}
+
+// Free-style rules: five or more in a row wins
+export const makesFive = (board: Board, index: number, stone: Stone): boolean =>
+  DIRECTIONS.some(([dr, dc]) => runThrough(board, index, stone, dr, dc).length >= 5);
+
+// The winning line on the board, if there is one
+export function findFive(board: Board): number[] | null {
+  for (let index = 0; index < board.length; index++) {
+    const stone = board[index];
+    if (!stone) continue;
+    for (const [dr, dc] of DIRECTIONS) {
+      const run = runThrough(board, index, stone, dr, dc);
+      if (run.length >= 5) return run.sort((a, b) => a - b);
+    }
+  }
+  return null;
+}
+
+export const checkWinner = (board: Board): Stone | null => {
+  const line = findFive(board);
+  return line ? board[line[0]] : null;
+};
+
+export const isBoardFull = (board: Board): boolean => board.every(cell => cell !== null);
+
+// Empty cells within `distance` of a stone - the only cells worth considering
+function candidateCells(board: Board, distance: number = 2): number[] {
+  const cells = new Set<number>();
+  for (let index = 0; index < board.length; index++) {
+    if (!board[index]) continue;
+    for (let dr = -distance; dr <= distance; dr++) {
+      for (let dc = -distance; dc <= distance; dc++) {
+        const cell = indexAt(rowOf(index) + dr, colOf(index) + dc);
+        if (cell !== -1 && !board[cell]) cells.add(cell);
+      }
+    }
+  }
+  return [...cells];
+}
+
+// Empty cells where `stone` would complete five
+const fiveCells = (board: Board, stone: Stone, cells: number[] = candidateCells(board, 1)): number[] =>
+  cells.filter(cell => !board[cell] && makesFive(board, cell, stone));
+
+// Cells that complete five along the lines through `index` - one makes a four, two an unstoppable open four
+function gainsAround(board: Board, index: number, stone: Stone): number[] {
+  const gains = new Set<number>();
+  for (const [dr, dc] of DIRECTIONS) {
+    for (const cell of lineCells(index, dr, dc, 4)) {
+      if (!board[cell] && makesFive(board, cell, stone)) gains.add(cell);
+    }
+  }
+  return [...gains];
+}
+
+// Playing `index` as `stone` and undoing it again; the search works on one scratch board
+function withStone<T>(board: Board, index: number, stone: Stone, look: () => T): T {
+  board[index] = stone;
+  try {
+    return look();
+  } finally {
+    board[index] = null;
+  }
+}
+
+// After `index` is played: for each open three it made, the cells that would turn it into an open four
+function openThreeDefences(board: Board, index: number, stone: Stone): number[] {
+  const defences = new Set<number>();
+  for (const [dr, dc] of DIRECTIONS) {
+    for (const cell of lineCells(index, dr, dc, 4)) {
+      if (board[cell]) continue;
+      const gains = withStone(board, cell, stone, () =>
+        lineCells(index, dr, dc, 5).filter(gain => !board[gain] && runThrough(board, gain, stone, dr, dc).length >= 5)
+      );
+      if (gains.length >= 2) {
+        defences.add(cell);
+        for (const gain of gains) defences.add(gain);
+      }
+    }
+  }
+  return [...defences];
+}
+
+const VCF_DEPTH = 10;
+const VCT_DEPTH = 3;
+
+// Victory by continuous fours: every attacking move threatens five, so the defender's reply is forced.
+// Returns the attacker's moves of the winning line, or null
+function searchFours(board: Board, attacker: Stone, depth: number): number[] | null {
+  const defender = opponentOf(attacker);
+  if (depth === 0 || fiveCells(board, defender).length > 0) return null;
+
+  for (const cell of candidateCells(board, 1)) {
+    const line = withStone(board, cell, attacker, (): number[] | null => {
+      if (makesFive(board, cell, attacker)) return [cell];
+
+      const gains = gainsAround(board, cell, attacker);
+      if (gains.length >= 2) return [cell];
+      if (gains.length === 0) return null;
+
+      // The defender has to take the single gain square, and must not make five or a four of their own there
+      return withStone(board, gains[0], defender, () => {
+        if (makesFive(board, gains[0], defender) || gainsAround(board, gains[0], defender).length > 0) return null;
+        const rest = searchFours(board, attacker, depth - 1);
+        return rest ? [cell, ...rest] : null;
+      });
+    });
+    if (line) return line;
+  }
+
+  return null;
+}
+
+// Victory by continuous threats: fours and open threes. After an open three every defence is tried,
+// and the attack has to win against all of them. Returns the first attacking move, or null
+function searchThreats(board: Board, attacker: Stone, depth: number): number | null {
+  const fours = searchFours(board, attacker, VCF_DEPTH);
+  if (fours) return fours[0];
+  if (depth === 0 || fiveCells(board, opponentOf(attacker)).length > 0) return null;
+
+  const defender = opponentOf(attacker);
+  for (const cell of candidateCells(board, 1)) {
+    const wins = withStone(board, cell, attacker, () => {
+      const defences = openThreeDefences(board, cell, attacker);
+      if (defences.length === 0) return false;
+      return defences.every(defence => withStone(board, defence, defender, () =>
+        !makesFive(board, defence, defender) && searchThreats(board, attacker, depth - 1) !== null
+      ));
+    });
+    if (wins) return cell;
+  }
+
+  return null;
+}
+
+// Shape value of one direction: the unbroken run through the cell and how many of its ends are open
+function shapeScore(length: number, openEnds: number): number {
+  if (length >= 5) return 100000;
+  if (openEnds === 0) return 0;
+  if (length === 4) return openEnds === 2 ? 10000 : 1000;
+  if (length === 3) return openEnds === 2 ? 1000 : 100;
+  if (length === 2) return openEnds === 2 ? 100 : 10;
+  return openEnds === 2 ? 10 : 1;
+}
+
+function cellScore(board: Board, index: number, stone: Stone): number {
+  let score = 0;
+  for (const [dr, dc] of DIRECTIONS) {
+    let length = 1;
+    let openEnds = 0;
+    for (const sign of [1, -1]) {
+      let row = rowOf(index) + dr * sign;
+      let col = colOf(index) + dc * sign;
+      while (indexAt(row, col) !== -1 && board[indexAt(row, col)] === stone) {
+        length++;
+        row += dr * sign;
+        col += dc * sign;
+      }
+      const end = indexAt(row, col);
+      if (end !== -1 && !board[end]) openEnds++;
+    }
+    score += shapeScore(length, openEnds);
+  }
+  return score;
+}
+
+// Attack value of a cell plus most of what it takes away from the opponent, with a nudge towards the centre
+function heuristicScore(board: Board, index: number, stone: Stone): number {
+  const centreDistance = Math.abs(rowOf(index) - rowOf(CENTER)) + Math.abs(colOf(index) - colOf(CENTER));
+  return cellScore(board, index, stone) + cellScore(board, index, opponentOf(stone)) * 0.8 - centreDistance;
+}
+
+const bestByHeuristic = (board: Board, cells: number[], stone: Stone): number =>
+  cells.reduce((best, cell) => (heuristicScore(board, cell, stone) > heuristicScore(board, best, stone) ? cell : best));
+
+// Cells where `stone` could make an open four next move
+const openFourCells = (board: Board, stone: Stone): number[] =>
+  candidateCells(board, 1).filter(cell => withStone(board, cell, stone, () => gainsAround(board, cell, stone).length >= 2));
+
+export interface GomokuMove {
+  move: number;
+  reasoning: string;
+  sequence: number[];  // Planned winning fours, when there is one
+}
+
+// Barron AI: win, block five, win by fours, stop the opponent's fours, win by threats, stop open threes,
+// then the best-shaped cell
+export function getGomokuMove(position: Board, stone: Stone): GomokuMove {
+  const board = [...position];
+  const opponent = opponentOf(stone);
+
+  if (board.every(cell => cell === null)) return { move: CENTER, reasoning: 'OPENING: CENTER', sequence: [] };
+
+  const win = fiveCells(board, stone);
+  if (win.length > 0) return { move: win[0], reasoning: 'WIN: FIVE IN A ROW', sequence: [win[0]] };
+
+  const mustBlock = fiveCells(board, opponent);
+  if (mustBlock.length > 0) return { move: mustBlock[0], reasoning: 'BLOCK: OPPONENT FOUR', sequence: [] };
+
+  const fours = searchFours(board, stone, VCF_DEPTH);
+  if (fours) return { move: fours[0], reasoning: 'VCF: WINNING SEQUENCE OF FOURS', sequence: fours };
+
+  const candidates = candidateCells(board);
+
+  // Replies that leave the opponent without a forced win, best shaped first
+  const safeReplies = (threat: (after: Board) => boolean) =>
+    candidates.filter(cell => withStone(board, cell, stone, () => !threat(board)));
+
+  const opponentFours = searchFours(board, opponent, VCF_DEPTH);
+  if (opponentFours) {
+    const replies = safeReplies(after => searchFours(after, opponent, VCF_DEPTH) !== null);
+    const move = replies.length > 0 ? bestByHeuristic(board, replies, stone) : opponentFours[0];
+    return { move, reasoning: 'DEFEND: OPPONENT FOUR SEQUENCE', sequence: [] };
+  }
+
+  const threat = searchThreats(board, stone, VCT_DEPTH);
+  if (threat !== null) return { move: threat, reasoning: 'VCT: WINNING THREAT SEQUENCE', sequence: [] };
+
+  if (openFourCells(board, opponent).length > 0) {
+    const replies = safeReplies(after => openFourCells(after, opponent).length > 0);
+    const move = bestByHeuristic(board, replies.length > 0 ? replies : candidates, stone);
+    return { move, reasoning: 'DEFEND: OPEN THREE', sequence: [] };
+  }
+
+  return { move: bestByHeuristic(board, candidates, stone), reasoning: 'HEURISTIC: BEST SHAPE', sequence: [] };
+}
@@ -0,0 +1,585 @@
+// Barron AI for Thai Makhos - board evaluation and alpha-beta search, free of React so it can run in a worker
+
+import {
+  type Board,
+  type Color,
+  type Move,
+  type Position,
+  type Variant,
+  DEFAULT_VARIANT,
+  getPosition,
+  getIndex,
+  isValidSquare,
+  isKing,
+  getCaptureMoves,
+  getValidMoves,
+  applyMove,
+  capturedSquare,
+  captureChains,
+  insufficientMaterial,
+  legalMoves
+} from './makhos';
+import { type Bound, TranspositionTable, hashPosition, sameMove } from './makhos-tt';
+
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'expert';
+
+export interface DifficultySettings {
+  label: string;
+  depthOffset: number;    // Added to the piece-count based search depth
+  noise: number;          // Largest random amount added to or taken from each root move score
+  missChainRate: number;  // Chance of only seeing the shortest capture chain
+  budgetMs: number;       // Thinking time before iterative deepening stops at the last finished depth
+}
+
+export const DIFFICULTIES: Record<Difficulty, DifficultySettings> = {
+  easy: { label: 'Easy', depthOffset: -6, noise: 600, missChainRate: 0.4, budgetMs: 500 },
+  medium: { label: 'Medium', depthOffset: -4, noise: 200, missChainRate: 0.1, budgetMs: 1000 },
+  hard: { label: 'Hard', depthOffset: -2, noise: 50, missChainRate: 0, budgetMs: 2000 },
+  expert: { label: 'Expert', depthOffset: 0, noise: 0, missChainRate: 0, budgetMs: 3000 }
+};
+
+export const DIFFICULTY_LEVELS = Object.keys(DIFFICULTIES) as Difficulty[];
+
+// Score of one root move, from the point of view of the side searching
+export interface RootEvaluation {
+  move: Move;
+  depth: number;
+  rawScore: number;
+  finalScore: number;
+  promotion: boolean;
+}
+
+export interface SearchProgress {
+  evaluation: RootEvaluation;
+  depth: number;
+  completed: number;
+  total: number;
+}
+
+export interface SearchResult {
+  move: Move | null;
+  score: number;
+  evaluations: RootEvaluation[];  // From the last depth that finished
+  missedChains: boolean;
+  depth: number;                  // Deepest iteration that finished inside the budget
+  nodes: number;
+  pv: Move[];                     // Principal variation, starting with the chosen move
+}
+
+export interface SearchOptions {
+  budgetMs?: number;              // Defaults to the level's budget
+  random?: () => number;
+  now?: () => number;
+  table?: TranspositionTable | null;  // Defaults to a fresh table per search; null searches without one
+  variant?: Variant;
+  side?: Color;                   // Side to search for, White by default
+}
+
+// Node count, deadline and transposition table shared by every minimax call of one search
+export interface SearchContext {
+  nodes: number;
+  deadline: number;
+  now: () => number;
+  table?: TranspositionTable | null;
+  variant?: Variant;
+}
+
+// Thrown from deep inside minimax once the deadline passes; the unfinished depth is thrown away
+class SearchTimeout extends Error {}
+
+// Material weights of evaluateBoard: every piece scores its base value on the board plus the material bonus,
+// a king both of its own on top
+const MAN_VALUE = 100;
+const KING_VALUE = 500;
+const MATERIAL_WEIGHT = 250;
+const KING_WEIGHT = 400;
+
+// What one man is worth to evaluateBoard before positional terms - the unit scores are shown and graded in
+export const MAN_SCORE = MAN_VALUE + MATERIAL_WEIGHT;
+
+// Static evaluation, positive when White stands better. Both colours are scored with the same weights,
+// so mirroring the board (mirrorBoard) negates the score
+export function evaluateBoard(board: Board, logDetails: boolean = false, variant: Variant = DEFAULT_VARIANT): number {
+  let score = 0;
+  let whitePieces = 0;
+  let blackPieces = 0;
+  let whiteKings = 0;
+  let blackKings = 0;
+  let whitePositionScore = 0;
+  let blackPositionScore = 0;
+  let whiteThreatened = 0;
+  let blackThreatened = 0;
+  let whiteCanCapture = 0;
+  let blackCanCapture = 0;
+  let whiteVulnerable = 0; // NEW: pieces that would be vulnerable after moving
+  let blackVulnerable = 0;
+  
+  // Check for threatened pieces and capture opportunities
+  const threatenedPieces = new Set<number>();
+  const directions = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+  for (let i = 0; i < 64; i++) {
+    const piece = board[i];
+    if (!piece) continue;
+    
+    const isWhite = piece[0] === 'W';
+    
+    // Check capture opportunities - a jump that carries on into a chain counts every piece the longest chain takes
+    const jumps = getCaptureMoves(board, i, variant);
+    if (jumps.length > 0) {
+      const chainLength = Math.max(...captureChains(board, i, variant).map(chain => chain.captures.length));
+      if (isWhite) whiteCanCapture += chainLength;
+      else blackCanCapture += chainLength;
+    }
+    
+    // Every piece one of these jumps takes is threatened - flying kings threaten from across the board
+    for (const landing of jumps) {
+      const target = capturedSquare(board, i, landing);
+      threatenedPieces.add(target);
+      if (isWhite) blackThreatened++;
+      else whiteThreatened++;
+    }
+    
+    // NEW: Check if moving this piece would create vulnerability
+    const moves = getValidMoves(board, i, false, variant);
+    for (const moveIndex of moves) {
+      const [moveRow, moveCol] = getPosition(moveIndex);
+      // Check if the destination would be vulnerable
+      for (const [dr, dc] of directions) {
+        const attackerRow = moveRow - dr;
+        const attackerCol = moveCol - dc;
+        const attackerIndex = getIndex(attackerRow, attackerCol);
+        
+        if (attackerIndex !== -1 && attackerIndex !== i) {
+          const attacker = board[attackerIndex];
+          if (attacker && attacker[0] !== piece[0]) {
+            const landingRow = moveRow + dr;
+            const landingCol = moveCol + dc;
+            const landingIndex = getIndex(landingRow, landingCol);
+            
+            if (landingIndex !== -1 && isValidSquare(landingRow, landingCol) && !board[landingIndex]) {
+              if (isWhite) whiteVulnerable++;
+              else blackVulnerable++;
+              break;
+            }
+          }
+        }
+      }
+    }
+  }
+  
+  for (let i = 0; i < 64; i++) {
+    const piece = board[i];
+    if (!piece) continue;
+    
+    const [row, col] = getPosition(i);
+    const isWhite = piece[0] === 'W';
+    const isKing = piece[1] === 'K';
+    // Rows moved up the board from the piece's own side - the same weights then apply to both colours
+    const forward = isWhite ? row : 7 - row;
+    
+    if (isWhite) {
+      whitePieces++;
+      if (isKing) whiteKings++;
+    } else {
+      blackPieces++;
+      if (isKing) blackKings++;
+    }
+    
+    // Base value - MUCH higher for kings
+    let value = isKing ? KING_VALUE : MAN_VALUE;
+    
+    // Center control bonus
+    const centerDistance = Math.abs(3.5 - row) + Math.abs(3.5 - col);
+    value += (14 - centerDistance) * 12;
+    
+    // Advancement bonus for pawns past the middle
+    if (!isKing && forward >= 4) value += (forward - 3) * 50;
+    
+    // Edge penalty (stronger)
+    if (col === 0 || col === 7) value -= 25;
+    if (row === 0 || row === 7) value -= 15;
+    
+    // Back row protection bonus
+    if (!isKing && forward <= 1) value += 25;
+    
+    // Mobility bonus
+    const moves = getValidMoves(board, i, false, variant);
+    value += moves.length * 12;
+    
+    // Threatened piece penalty (MUCH stronger)
+    if (threatenedPieces.has(i)) {
+      value -= isKing ? 200 : 80;
+    }
+    
+    // Protected piece bonus
+    let isProtected = false;
+    for (const [dr, dc] of [[-1, -1], [-1, 1], [1, -1], [1, 1]]) {
+      const protectorIndex = getIndex(row + dr, col + dc);
+      if (protectorIndex !== -1) {
+        const protector = board[protectorIndex];
+        if (protector && protector[0] === piece[0]) {
+          isProtected = true;
+          break;
+        }
+      }
+    }
+    if (isProtected) value += 20;
+    
+    // King positioning bonus - kings should be aggressive and central
+    if (isKing) value += 50;
+    
+    if (isWhite) {
+      whitePositionScore += value;
+    } else {
+      blackPositionScore += value;
+    }
+    
+    score += isWhite ? value : -value;
+  }
+  
+  // Material advantage (MUCH stronger weight)
+  const materialDiff = (whitePieces - blackPieces) * MATERIAL_WEIGHT;
+  const kingDiff = (whiteKings - blackKings) * KING_WEIGHT;
+  
+  // Threat penalty (stronger)
+  const threatDiff = (blackThreatened - whiteThreatened) * 50;
+  
+  // Capture opportunity bonus (NEW - heavily favor having captures available)
+  const captureDiff = (whiteCanCapture - blackCanCapture) * 100;
+  
+  // Vulnerability penalty (NEW - avoid creating capture opportunities for opponent)
+  const vulnerabilityDiff = (blackVulnerable - whiteVulnerable) * 40;
+  
+  score += materialDiff + kingDiff + threatDiff + captureDiff + vulnerabilityDiff;
+  
+  // Endgame bonus: push for king promotion
+  if (whitePieces + blackPieces <= 8) {
+    for (let i = 0; i < 64; i++) {
+      const piece = board[i];
+      if (!piece || piece[1] === 'K') continue;
+      
+      const [row] = getPosition(i);
+      const forward = piece[0] === 'W' ? row : 7 - row;
+      if (forward >= 4) score += (piece[0] === 'W' ? 1 : -1) * (forward - 3) * 40;
+    }
+  }
+  
+  // Winning/losing position detection
+  if (whitePieces === 0) score = -50000;
+  if (blackPieces === 0) score = 50000;
+  
+  if (logDetails) {
+    console.log('📊 Board Evaluation:', {
+      totalScore: score,
+      white: { pieces: whitePieces, kings: whiteKings, positionScore: whitePositionScore, threatened: whiteThreatened, canCapture: whiteCanCapture, vulnerable: whiteVulnerable },
+      black: { pieces: blackPieces, kings: blackKings, positionScore: blackPositionScore, threatened: blackThreatened, canCapture: blackCanCapture, vulnerable: blackVulnerable },
+      materialDiff,
+      kingDiff,
+      threatDiff,
+      captureDiff,
+      vulnerabilityDiff
+    });
+  }
+  
+  return score;
+}
+
+const countNode = (context?: SearchContext) => {
+  if (!context) return;
+  context.nodes++;
+  if ((context.nodes & 1023) === 0 && context.now() > context.deadline) throw new SearchTimeout();
+};
+
+// Quiescence search - past the depth limit, keep playing out forced captures (whole chains) so the static
+// evaluation is never taken in the middle of an exchange
+export function quiescence(board: Board, alpha: number, beta: number, isMaximizing: boolean, context?: SearchContext): number {
+  countNode(context);
+  if (insufficientMaterial(board)) return 0;
+
+  const position: Position = { board, turn: isMaximizing ? 'W' : 'B', variant: context?.variant };
+  const moves = legalMoves(position);
+
+  if (moves.length === 0) return isMaximizing ? -100000 : 100000;
+  // Captures are mandatory, so either every move captures or the position is quiet
+  if (moves[0].captures.length === 0) return evaluateBoard(board, false, context?.variant);
+
+  moves.sort((a, b) => b.captures.length - a.captures.length);
+  let best = isMaximizing ? -Infinity : Infinity;
+
+  for (const move of moves) {
+    const evaluation = quiescence(applyMove(position, move).board, alpha, beta, !isMaximizing, context);
+    if (isMaximizing) {
+      best = Math.max(best, evaluation);
+      alpha = Math.max(alpha, evaluation);
+    } else {
+      best = Math.min(best, evaluation);
+      beta = Math.min(beta, evaluation);
+    }
+    if (beta <= alpha) break;
+  }
+
+  return best;
+}
+
+// Alpha-beta minimax - White maximizes, Black minimizes.
+// With a context it counts nodes, stops at the deadline and uses its transposition table;
+// with a pv array it fills in the best line from here
+export function minimax(
+  board: Board,
+  depth: number,
+  alpha: number,
+  beta: number,
+  isMaximizing: boolean,
+  context?: SearchContext,
+  pv?: Move[]
+): number {
+  if (depth === 0) return quiescence(board, alpha, beta, isMaximizing, context);
+  countNode(context);
+  if (insufficientMaterial(board)) return 0;
+  
+  const position: Position = { board, turn: isMaximizing ? 'W' : 'B', variant: context?.variant };
+  const table = context?.table;
+  const key = table ? hashPosition(board, position.turn) : 0;
+  const entry = table?.get(key);
+  
+  // A stored result from at least this deep settles the node or narrows the window
+  if (entry && entry.depth >= depth) {
+    if (entry.bound === 'exact' ||
+        (entry.bound === 'lower' && entry.score >= beta) ||
+        (entry.bound === 'upper' && entry.score <= alpha)) {
+      if (pv && entry.bestMove) pv.splice(0, pv.length, entry.bestMove);
+      return entry.score;
+    }
+  }
+  
+  const moves = legalMoves(position);
+  
+  if (moves.length === 0) return isMaximizing ? -100000 : 100000;
+  
+  // Move ordering for better pruning: longest captures first, then kings, then by advancement
+  const advancement = (move: Move) => {
+    const rows = getPosition(move.path[move.path.length - 1])[0] - getPosition(move.from)[0];
+    return isMaximizing ? rows : -rows;
+  };
+  const orderedMoves = moves.sort((a, b) => {
+    if (a.captures.length !== b.captures.length) return b.captures.length - a.captures.length;
+    const aIsKing = isKing(board[a.from]);
+    const bIsKing = isKing(board[b.from]);
+    if (aIsKing !== bIsKing) return bIsKing ? 1 : -1;
+    return advancement(b) - advancement(a); // Prefer advancing
+  });
+  
+  // The best move stored for this position is tried first
+  const storedMove = entry?.bestMove;
+  if (storedMove) {
+    const stored = orderedMoves.findIndex(move => sameMove(move, storedMove));
+    if (stored > 0) orderedMoves.unshift(...orderedMoves.splice(stored, 1));
+  }
+  
+  const alphaBefore = alpha;
+  const betaBefore = beta;
+  let bestMove: Move | null = null;
+  const store = (score: number) => {
+    if (!table) return;
+    const bound: Bound = score <= alphaBefore ? 'upper' : score >= betaBefore ? 'lower' : 'exact';
+    table.set(key, { depth, score, bound, bestMove });
+  };
+  
+  const childPv: Move[] | undefined = pv ? [] : undefined;
+  const recordPv = (move: Move) => {
+    if (!pv || !childPv) return;
+    pv.length = 0;
+    pv.push(move, ...childPv);
+  };
+  
+  if (isMaximizing) {
+    let maxEval = -Infinity;
+    
+    for (const move of orderedMoves) {
+      if (childPv) childPv.length = 0;
+      const evaluation = minimax(applyMove(position, move).board, depth - 1, alpha, beta, false, context, childPv);
+      if (evaluation > maxEval) {
+        bestMove = move;
+        recordPv(move);
+      }
+      maxEval = Math.max(maxEval, evaluation);
+      alpha = Math.max(alpha, evaluation);
+      
+      if (beta <= alpha) break;
+    }
+    
+    store(maxEval);
+    return maxEval;
+  } else {
+    let minEval = Infinity;
+    
+    for (const move of orderedMoves) {
+      if (childPv) childPv.length = 0;
+      const evaluation = minimax(applyMove(position, move).board, depth - 1, alpha, beta, true, context, childPv);
+      if (evaluation < minEval) {
+        bestMove = move;
+        recordPv(move);
+      }
+      minEval = Math.min(minEval, evaluation);
+      beta = Math.min(beta, evaluation);
+      
+      if (beta <= alpha) break;
+    }
+    
+    store(minEval);
+    return minEval;
+  }
+}
+
+// Deepest iteration for a board: more pieces off the board means a deeper search
+function maxSearchDepth(board: Board, settings: DifficultySettings): number {
+  const totalPieces = board.filter(p => p !== null).length;
+  let searchDepth = 8;
+
+  // Increase depth in endgame
+  if (totalPieces <= 8) searchDepth = 10;
+  else if (totalPieces <= 12) searchDepth = 9;
+
+  // Lower levels search shallower
+  return Math.max(1, searchDepth + settings.depthOffset);
+}
+
+// Better move selection: prefer moves with higher scores, but also consider:
+// 1. Captures are heavily favored
+// 2. King promotions are favored
+function pickBest(evaluations: RootEvaluation[]): RootEvaluation | null {
+  let best: RootEvaluation | null = null;
+
+  for (const evaluation of evaluations) {
+    const isCapture = evaluation.move.captures.length > 0;
+    if (!best ||
+        evaluation.finalScore > best.finalScore ||
+        (evaluation.finalScore === best.finalScore && isCapture && best.move.captures.length === 0) ||
+        (evaluation.finalScore === best.finalScore && evaluation.promotion && !best.promotion)) {
+      best = evaluation;
+    }
+  }
+
+  return best;
+}
+
+// Iterative-deepening root search for options.side (White by default). Each depth searches every root move,
+// best move of the previous depth first, and yields after each one so a caller can report progress or stop
+// early. When the time budget runs out the unfinished depth is dropped and the answer comes from the last
+// depth that finished
+export function* searchRoot(
+  board: Board,
+  difficulty: Difficulty,
+  options: SearchOptions = {}
+): Generator<SearchProgress, SearchResult, void> {
+  const settings = DIFFICULTIES[difficulty];
+  const {
+    budgetMs = settings.budgetMs,
+    random = Math.random,
+    now = Date.now,
+    table = new TranspositionTable(),
+    variant = DEFAULT_VARIANT,
+    side = 'W'
+  } = options;
+  const position: Position = { board, turn: side, variant };
+  // minimax scores from White's point of view; root scores are turned round to the searching side's
+  const sign = side === 'W' ? 1 : -1;
+  let moves = legalMoves(position);
+  let missedChains = false;
+
+  // Weaker levels can overlook a longer capture chain
+  if (moves.some(move => move.captures.length > 0) && settings.missChainRate > 0 && random() < settings.missChainRate) {
+    const shortest = Math.min(...moves.map(move => move.captures.length));
+    missedChains = moves.some(move => move.captures.length > shortest);
+    moves = moves.filter(move => move.captures.length === shortest);
+  }
+
+  // Each root move keeps the same noise at every depth
+  const noise = new Map(moves.map(move => [move, settings.noise > 0 ? Math.round((random() * 2 - 1) * settings.noise) : 0]));
+  const maxDepth = maxSearchDepth(board, settings);
+  // The first depth always finishes so there is a move to play however small the budget
+  const context: SearchContext = { nodes: 0, deadline: Infinity, now, table, variant };
+  const deadline = now() + budgetMs;
+
+  let finished: { depth: number; evaluations: RootEvaluation[]; pvs: Map<Move, Move[]> } | null = null;
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const evaluations: RootEvaluation[] = [];
+    const pvs = new Map<Move, Move[]>();
+
+    try {
+      for (const move of moves) {
+        const newBoard = applyMove(position, move).board;
+        const to = move.path[move.path.length - 1];
+
+        const pv: Move[] = [];
+        // The root move is the first of the `depth` plies
+        const rawScore = sign * minimax(newBoard, depth - 1, -Infinity, Infinity, side === 'B', context, pv);
+        const finalScore = rawScore + (noise.get(move) ?? 0);
+
+        const evaluation: RootEvaluation = {
+          move,
+          depth,
+          rawScore,
+          finalScore,
+          promotion: isKing(newBoard[to]) && !isKing(board[move.from])
+        };
+        evaluations.push(evaluation);
+        pvs.set(move, [move, ...pv]);
+
+        yield { evaluation, depth, completed: evaluations.length, total: moves.length };
+      }
+    } catch (error) {
+      if (error instanceof SearchTimeout) break;
+      throw error;
+    }
+
+    finished = { depth, evaluations, pvs };
+    // Search the best moves first next time round
+    moves = [...evaluations].sort((a, b) => b.finalScore - a.finalScore).map(({ move }) => move);
+
+    context.deadline = deadline;
+    if (now() > deadline) break;
+  }
+
+  const best = finished ? pickBest(finished.evaluations) : null;
+  return {
+    move: best?.move ?? null,
+    score: best?.finalScore ?? -Infinity,
+    evaluations: finished?.evaluations ?? [],
+    missedChains,
+    depth: finished?.depth ?? 0,
+    nodes: context.nodes,
+    pv: best && finished ? finished.pvs.get(best.move) ?? [] : []
+  };
+}
+
+// Run the whole root search in one go
+export function searchBestMove(board: Board, difficulty: Difficulty, options: SearchOptions = {}): SearchResult {
+  const search = searchRoot(board, difficulty, options);
+  let step = search.next();
+  while (!step.done) step = search.next();
+  return step.value;
+}
+
+// evaluateBoard is symmetric, so an even position scores around 0 - the AI wants to be clearly ahead to play on
+export const DRAW_ACCEPT_BELOW = 150;
+
+// The AI (`side`) takes a draw offered on the player's turn unless it thinks it stands better
+export function acceptsDraw(board: Board, variant: Variant = DEFAULT_VARIANT, side: Color = 'W'): boolean {
+  const context: SearchContext = { nodes: 0, deadline: Infinity, now: Date.now, variant };
+  const score = quiescence(board, -Infinity, Infinity, side === 'B', context);
+  return (side === 'W' ? score : -score) < DRAW_ACCEPT_BELOW;
+}
+
+// Players for AI-vs-AI spectator matches - the engine searching at a level's depth, or a random legal move
+export type Agent = Difficulty | 'random';
+
+export const AGENT_LIST: Agent[] = [...DIFFICULTY_LEVELS, 'random'];
+
+export const agentLabel = (agent: Agent): string => (agent === 'random' ? 'Random' : `Barron ${DIFFICULTIES[agent].label}`);
+
+export function randomMove(position: Position, random: () => number = Math.random): Move | null {
+  const moves = legalMoves(position);
+  return moves.length > 0 ? moves[Math.floor(random() * moves.length)] : null;
+}
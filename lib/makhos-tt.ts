@@ -0,0 +1,82 @@
+// Zobrist hashing and a bounded transposition table for the Makhos search
+
+import type { Board, Color, Move, Piece } from './makhos';
+
+const PIECES: NonNullable<Piece>[] = ['BP', 'WP', 'BK', 'WK'];
+
+// Fixed-seed generator (mulberry32) so a position hashes the same way on every run
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+}
+
+// Keys are split into a 32-bit low half and a 21-bit high half so the combined hash stays a safe integer
+const HIGH_MASK = 0x1fffff;
+const next32 = seededRandom(0x4d414b48);
+const pieceKeys = PIECES.map(() => Array.from({ length: 64 }, () => [next32(), next32() & HIGH_MASK]));
+const whiteToMoveKey = [next32(), next32() & HIGH_MASK];
+
+export function hashPosition(board: Board, turn: Color): number {
+  let low = turn === 'W' ? whiteToMoveKey[0] : 0;
+  let high = turn === 'W' ? whiteToMoveKey[1] : 0;
+
+  for (let i = 0; i < 64; i++) {
+    const piece = board[i];
+    if (!piece) continue;
+    const [keyLow, keyHigh] = pieceKeys[PIECES.indexOf(piece)][i];
+    low ^= keyLow;
+    high ^= keyHigh;
+  }
+
+  return high * 0x100000000 + (low >>> 0);
+}
+
+// exact: the score is the true value; lower: the search failed high (score is at least this); upper: it failed low
+export type Bound = 'exact' | 'lower' | 'upper';
+
+export interface TableEntry {
+  depth: number;
+  score: number;
+  bound: Bound;
+  bestMove: Move | null;
+}
+
+export const DEFAULT_TABLE_SIZE = 200_000;
+
+// Holds at most `capacity` positions; when full the oldest entry makes room for the new one
+export class TranspositionTable {
+  private entries = new Map<number, TableEntry>();
+
+  constructor(private capacity: number = DEFAULT_TABLE_SIZE) {}
+
+  get size() {
+    return this.entries.size;
+  }
+
+  get(key: number): TableEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: number, entry: TableEntry) {
+    const existing = this.entries.get(key);
+    // Keep a deeper result for the same position
+    if (existing && existing.depth > entry.depth) return;
+
+    this.entries.delete(key);
+    if (this.entries.size >= this.capacity) {
+      this.entries.delete(this.entries.keys().next().value as number);
+    }
+    this.entries.set(key, entry);
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+export const sameMove = (a: Move, b: Move): boolean =>
+  a.from === b.from && a.path.length === b.path.length && a.path.every((square, i) => square === b.path[i]);
@@ -0,0 +1,363 @@
+// Thai Makhos (หมากฮอสไทย) engine - pure rules and move generation, no React / no side effects
+
+export type Color = 'B' | 'W';
+export type Piece = 'BP' | 'WP' | 'BK' | 'WK' | null;
+export type Board = Piece[];
+
+// Regional rule sets on the same 8x8 board. Thai kings (ฮอส) fly along the diagonals;
+// the simplified variant keeps the old one-step king on three rows of men. Russian plays the Turkish-strike
+// rule - jumped pieces stay on the board until the whole move is over - while in the others a captured piece
+// comes off as soon as it is jumped
+export type Variant = 'thai' | 'english' | 'russian' | 'simplified';
+
+export interface VariantRules {
+  label: string;
+  startingRows: number;         // Rows of men each side starts with
+  menCaptureBackward: boolean;  // Men may jump backwards (they still only step forwards)
+  flyingKings: boolean;         // Kings slide any distance and capture from a distance
+  kingLandsAnywhere: boolean;   // A flying king may stop on any free square past the piece it took
+  maximumCapture: boolean;      // The chain taking the most pieces must be played
+  promotionEndsChain: boolean;  // A man that is crowned mid-capture stops there instead of jumping on as a king
+  turkishStrike: boolean;       // Jumped pieces stay on the board, blocking but not capturable again, until the move ends
+}
+
+export const VARIANTS: Record<Variant, VariantRules> = {
+  thai: {
+    label: 'Thai', startingRows: 2, menCaptureBackward: false, flyingKings: true,
+    kingLandsAnywhere: false, maximumCapture: false, promotionEndsChain: true, turkishStrike: false
+  },
+  english: {
+    label: 'English', startingRows: 3, menCaptureBackward: false, flyingKings: false,
+    kingLandsAnywhere: false, maximumCapture: false, promotionEndsChain: true, turkishStrike: false
+  },
+  russian: {
+    label: 'Russian', startingRows: 3, menCaptureBackward: true, flyingKings: true,
+    kingLandsAnywhere: true, maximumCapture: false, promotionEndsChain: false, turkishStrike: true
+  },
+  simplified: {
+    label: 'Simplified', startingRows: 3, menCaptureBackward: false, flyingKings: false,
+    kingLandsAnywhere: false, maximumCapture: false, promotionEndsChain: false, turkishStrike: false
+  }
+};
+
+export const VARIANT_NAMES = Object.keys(VARIANTS) as Variant[];
+export const DEFAULT_VARIANT: Variant = 'thai';
+
+export interface Position {
+  board: Board;
+  turn: Color;
+  variant?: Variant;  // Defaults to DEFAULT_VARIANT
+}
+
+// One whole turn: the moving piece, every square it lands on, and every square it captured
+export interface Move {
+  from: number;
+  path: number[];
+  captures: number[];
+}
+
+export const getPosition = (index: number): [number, number] => [Math.floor(index / 8), index % 8];
+export const getIndex = (row: number, col: number): number => row < 0 || row >= 8 || col < 0 || col >= 8 ? -1 : row * 8 + col;
+export const isValidSquare = (row: number, col: number): boolean => (row + col) % 2 === 1;
+
+export const opponentOf = (color: Color): Color => (color === 'B' ? 'W' : 'B');
+export const colorOf = (piece: Piece): Color | null => (piece ? (piece[0] as Color) : null);
+export const isKing = (piece: Piece): boolean => piece !== null && piece[1] === 'K';
+
+// Black moves up the board (towards row 0), White moves down (towards row 7)
+export const promotionRow = (color: Color): number => (color === 'B' ? 0 : 7);
+
+const ALL_DIRECTIONS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+
+const pieceDirections = (piece: NonNullable<Piece>): number[][] =>
+  isKing(piece) ? ALL_DIRECTIONS : piece[0] === 'B' ? [[-1, -1], [-1, 1]] : [[1, -1], [1, 1]];
+
+const captureDirections = (piece: NonNullable<Piece>, variant: Variant): number[][] =>
+  VARIANTS[variant].menCaptureBackward ? ALL_DIRECTIONS : pieceDirections(piece);
+
+export function initializeBoard(variant: Variant = DEFAULT_VARIANT): Board {
+  const board: Board = Array(64).fill(null);
+  const rows = VARIANTS[variant].startingRows;
+
+  for (let row = 8 - rows; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      if (isValidSquare(row, col)) board[row * 8 + col] = 'BP';
+    }
+  }
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < 8; col++) {
+      if (isValidSquare(row, col)) board[row * 8 + col] = 'WP';
+    }
+  }
+
+  return board;
+}
+
+export const initialPosition = (turn: Color = 'B', variant?: Variant): Position =>
+  variant ? { board: initializeBoard(variant), turn, variant } : { board: initializeBoard(), turn };
+
+// A king of the variant slides any distance
+const fliesIn = (piece: NonNullable<Piece>, variant: Variant): boolean => isKing(piece) && VARIANTS[variant].flyingKings;
+
+// Landing squares of every single jump the piece can make right now. `jumped` holds the squares already
+// captured earlier in the same move: under the Turkish-strike rule those pieces are still standing and may not be taken twice
+export function getCaptureMoves(
+  board: Board,
+  pieceIndex: number,
+  variant: Variant = DEFAULT_VARIANT,
+  jumped: number[] = []
+): number[] {
+  const piece = board[pieceIndex];
+  if (!piece) return [];
+
+  const [row, col] = getPosition(pieceIndex);
+  const captures: number[] = [];
+
+  for (const [dr, dc] of captureDirections(piece, variant)) {
+    // A flying king captures the first piece along the diagonal and lands on the square right behind it,
+    // or with kingLandsAnywhere on any free square past it - preferring squares the capture can go on from
+    if (fliesIn(piece, variant)) {
+      let r = row + dr;
+      let c = col + dc;
+      while (getIndex(r, c) !== -1 && !board[getIndex(r, c)]) {
+        r += dr;
+        c += dc;
+      }
+      const target = board[getIndex(r, c)];
+      if (!target || target[0] === piece[0] || jumped.includes(getIndex(r, c))) continue;
+
+      const landings: number[] = [];
+      for (let lr = r + dr, lc = c + dc; getIndex(lr, lc) !== -1 && !board[getIndex(lr, lc)]; lr += dr, lc += dc) {
+        landings.push(getIndex(lr, lc));
+        if (!VARIANTS[variant].kingLandsAnywhere) break;
+      }
+      const continuing = landings.length > 1
+        ? landings.filter(landing =>
+          getCaptureMoves(chainStep(board, pieceIndex, landing, variant), landing, variant, [...jumped, getIndex(r, c)]).length > 0)
+        : [];
+      captures.push(...(continuing.length > 0 ? continuing : landings));
+      continue;
+    }
+
+    const jumpRow = row + dr * 2;
+    const jumpCol = col + dc * 2;
+    const jumpIndex = getIndex(jumpRow, jumpCol);
+
+    if (jumpIndex !== -1 && isValidSquare(jumpRow, jumpCol)) {
+      const midIndex = getIndex(row + dr, col + dc);
+      const midPiece = board[midIndex];
+      if (midPiece && midPiece[0] !== piece[0] && !jumped.includes(midIndex) && !board[jumpIndex]) {
+        captures.push(jumpIndex);
+      }
+    }
+  }
+
+  return captures;
+}
+
+// Single-segment targets of a piece: its jumps if it has any, otherwise its plain steps
+export function getValidMoves(
+  board: Board,
+  pieceIndex: number,
+  capturesOnly: boolean = false,
+  variant: Variant = DEFAULT_VARIANT
+): number[] {
+  const piece = board[pieceIndex];
+  if (!piece) return [];
+
+  const captures = getCaptureMoves(board, pieceIndex, variant);
+  if (capturesOnly || captures.length > 0) return captures;
+
+  const [row, col] = getPosition(pieceIndex);
+  const moves: number[] = [];
+  const reach = fliesIn(piece, variant) ? 7 : 1;
+
+  for (const [dr, dc] of pieceDirections(piece)) {
+    for (let distance = 1; distance <= reach; distance++) {
+      const newRow = row + dr * distance;
+      const newCol = col + dc * distance;
+      const newIndex = getIndex(newRow, newCol);
+
+      if (newIndex === -1 || !isValidSquare(newRow, newCol) || board[newIndex]) break;
+      moves.push(newIndex);
+    }
+  }
+
+  return moves;
+}
+
+// Square of the opponent piece jumped over between `from` and `to`, or -1 for a plain step
+export function capturedSquare(board: Board, from: number, to: number): number {
+  const [fromRow, fromCol] = getPosition(from);
+  const [toRow, toCol] = getPosition(to);
+  const dr = Math.sign(toRow - fromRow);
+  const dc = Math.sign(toCol - fromCol);
+
+  for (let r = fromRow + dr, c = fromCol + dc; r !== toRow; r += dr, c += dc) {
+    const index = getIndex(r, c);
+    if (board[index]) return index;
+  }
+  return -1;
+}
+
+// Play one segment of a move (a step or a single jump), removing the jumped piece and promoting on the last row
+export function applyStep(board: Board, from: number, to: number): Board {
+  const captured = capturedSquare(board, from, to);
+  const newBoard = slide(board, from, to);
+  if (captured !== -1) newBoard[captured] = null;
+  return newBoard;
+}
+
+// Move the piece from `from` to `to`, promoting on the last row, without touching whatever it jumped
+function slide(board: Board, from: number, to: number): Board {
+  const newBoard = [...board];
+  const piece = newBoard[from];
+
+  newBoard[to] = piece;
+  newBoard[from] = null;
+
+  if (piece && !isKing(piece) && getPosition(to)[0] === promotionRow(piece[0] as Color)) {
+    newBoard[to] = piece[0] === 'B' ? 'BK' : 'WK';
+  }
+
+  return newBoard;
+}
+
+// One jump inside a chain being generated - the jumped piece stays put until the move ends under the Turkish-strike rule
+const chainStep = (board: Board, from: number, to: number, variant: Variant): Board =>
+  VARIANTS[variant].turkishStrike ? slide(board, from, to) : applyStep(board, from, to);
+
+// Every complete jump chain starting from `from` - a chain only ends when no further jump exists
+export function captureChains(board: Board, from: number, variant: Variant = DEFAULT_VARIANT): Move[] {
+  const chains: Move[] = [];
+  const startsAsMan = !isKing(board[from]);
+
+  const extend = (current: Board, square: number, path: number[], captures: number[]) => {
+    const crowned = startsAsMan && isKing(current[square]);
+    const jumps = crowned && VARIANTS[variant].promotionEndsChain ? [] : getCaptureMoves(current, square, variant, captures);
+    if (jumps.length === 0) {
+      if (path.length > 0) chains.push({ from, path, captures });
+      return;
+    }
+    for (const landing of jumps) {
+      const captured = capturedSquare(current, square, landing);
+      extend(chainStep(current, square, landing, variant), landing, [...path, landing], [...captures, captured]);
+    }
+  };
+
+  extend(board, from, [], []);
+  return chains;
+}
+
+// All legal moves for `side`; capturing is mandatory, so plain steps only appear when nothing can be captured
+export function legalMoves(position: Position, side: Color = position.turn): Move[] {
+  const { board, variant = DEFAULT_VARIANT } = position;
+
+  const captures: Move[] = [];
+  for (let i = 0; i < 64; i++) {
+    if (colorOf(board[i]) === side) captures.push(...captureChains(board, i, variant));
+  }
+  if (captures.length > 0 && VARIANTS[variant].maximumCapture) {
+    const most = Math.max(...captures.map(move => move.captures.length));
+    return captures.filter(move => move.captures.length === most);
+  }
+  if (captures.length > 0) return captures;
+
+  const moves: Move[] = [];
+  for (let i = 0; i < 64; i++) {
+    if (colorOf(board[i]) !== side) continue;
+    for (const to of getValidMoves(board, i, false, variant)) {
+      moves.push({ from: i, path: [to], captures: [] });
+    }
+  }
+  return moves;
+}
+
+export function applyMove(position: Position, move: Move): Position {
+  let board = position.board;
+  let square = move.from;
+  for (const to of move.path) {
+    board = applyStep(board, square, to);
+    square = to;
+  }
+  return { ...position, board, turn: opponentOf(position.turn) };
+}
+
+// The board turned 180° with the colours swapped - Black's moves become White's, so a search
+// written for White can answer for Black too
+export const mirrorBoard = (board: Board): Board =>
+  board.map((_, i) => {
+    const piece = board[63 - i];
+    return piece && (`${opponentOf(piece[0] as Color)}${piece[1]}` as Piece);
+  });
+
+export const mirrorMove = (move: Move): Move => ({
+  from: 63 - move.from,
+  path: move.path.map(square => 63 - square),
+  captures: move.captures.map(square => 63 - square)
+});
+
+// Why a set-up position cannot be played, or null if it can: pieces stand on dark squares only, a man never
+// stands on the row it promotes on, both sides have a piece and the side to move has a legal move
+export function setupError(position: Position): string | null {
+  const { board } = position;
+  for (let i = 0; i < 64; i++) {
+    const piece = board[i];
+    if (!piece) continue;
+    const [row, col] = getPosition(i);
+    if (!isValidSquare(row, col)) return `Piece on a light square (row ${row}, column ${col})`;
+    if (!isKing(piece) && row === promotionRow(piece[0] as Color)) return `Man on its promotion row (row ${row}, column ${col}) - make it a king`;
+  }
+
+  for (const color of ['B', 'W'] as Color[]) {
+    if (!board.some(piece => colorOf(piece) === color)) return `${color === 'B' ? 'Black' : 'White'} has no pieces`;
+  }
+  if (legalMoves(position).length === 0) return `${position.turn === 'B' ? 'Black' : 'White'} is to move but has no legal move`;
+  return null;
+}
+
+// Winner of the position, or null while the side to move still has a legal move
+export function result(position: Position): Color | null {
+  return legalMoves(position).length === 0 ? opponentOf(position.turn) : null;
+}
+
+// Draws: the same position three times, too long without a capture or a man moving, or a lone king each
+export type DrawReason = 'repetition' | 'move-limit' | 'insufficient-material';
+
+// Moves per side without a capture or a man moving before the game is drawn
+export const DRAW_MOVE_LIMIT = 25;
+
+export const positionKey = (position: Position): string =>
+  position.turn + position.board.map(piece => piece ?? '--').join('');
+
+// Captures and man moves can never be undone, so no earlier position can come back after one
+export const isIrreversible = (board: Board, move: Move): boolean => move.captures.length > 0 || !isKing(board[move.from]);
+
+// Keys of the positions since the last irreversible move, ending with the position after `move`
+export function extendHistory(history: string[], before: Position, move: Move, after: Position): string[] {
+  const key = positionKey(after);
+  return isIrreversible(before.board, move) ? [key] : [...history, key];
+}
+
+export function insufficientMaterial(board: Board): boolean {
+  const pieces = board.filter(piece => piece !== null);
+  return pieces.length === 2 && pieces.includes('BK') && pieces.includes('WK');
+}
+
+// Why the game is drawn at `position`, whose key is the last entry of `history`, or null if it goes on
+export function drawReason(position: Position, history: string[]): DrawReason | null {
+  if (insufficientMaterial(position.board)) return 'insufficient-material';
+
+  const key = positionKey(position);
+  if (history.filter(seen => seen === key).length >= 3) return 'repetition';
+  if (history.length - 1 >= DRAW_MOVE_LIMIT * 2) return 'move-limit';
+
+  return null;
+}
+
+export const DRAW_REASONS: Record<DrawReason, string> = {
+  repetition: 'Same position three times',
+  'move-limit': `${DRAW_MOVE_LIMIT} moves each without a capture or a man moving`,
+  'insufficient-material': 'King against king'
+};
@@ -0,0 +1,82 @@
+// Recorded games - the move list and every position it passed through, so spectator playback can step to any ply
+// and a game against the AI can take moves back
+
+export interface MatchRecord<Position, Move> {
+  positions: Position[];  // positions[0] is the start, positions[i + 1] follows moves[i]
+  moves: Move[];
+}
+
+export const startMatch = <Position, Move>(start: Position): MatchRecord<Position, Move> => ({
+  positions: [start],
+  moves: []
+});
+
+export const extendMatch = <Position, Move>(
+  match: MatchRecord<Position, Move>,
+  move: Move,
+  next: Position
+): MatchRecord<Position, Move> => ({
+  positions: [...match.positions, next],
+  moves: [...match.moves, move]
+});
+
+export type PlaybackSpeed = 'slow' | 'normal' | 'fast';
+
+export interface PlaybackSettings {
+  label: string;
+  delayMs: number;  // Pause before the next ply is shown
+}
+
+export const PLAYBACK_SPEEDS: Record<PlaybackSpeed, PlaybackSettings> = {
+  slow: { label: '0.5×', delayMs: 1600 },
+  normal: { label: '1×', delayMs: 800 },
+  fast: { label: '4×', delayMs: 200 }
+};
+
+export const PLAYBACK_SPEED_LIST = Object.keys(PLAYBACK_SPEEDS) as PlaybackSpeed[];
+
+// A game with take-backs - `ply` is the position on the board, the plies after it can still be redone
+export interface GameHistory<Position, Move> extends MatchRecord<Position, Move> {
+  ply: number;
+}
+
+export const startHistory = <Position, Move>(start: Position): GameHistory<Position, Move> => ({
+  ...startMatch(start),
+  ply: 0
+});
+
+// A move played after an undo drops whatever was left to redo
+export const recordPly = <Position, Move>(
+  history: GameHistory<Position, Move>,
+  move: Move,
+  next: Position
+): GameHistory<Position, Move> => ({
+  positions: [...history.positions.slice(0, history.ply + 1), next],
+  moves: [...history.moves.slice(0, history.ply), move],
+  ply: history.ply + 1
+});
+
+// Forget the plies after the shown one - an undo while the AI is still thinking has nothing to redo
+export const dropRedo = <Position, Move>(history: GameHistory<Position, Move>): GameHistory<Position, Move> => ({
+  positions: history.positions.slice(0, history.ply + 1),
+  moves: history.moves.slice(0, history.ply),
+  ply: history.ply
+});
+
+// `humanMoves(ply)` tells whether the human played the move made from position `ply`.
+// Undo goes back to the last of those, so the AI's reply comes off together with the human move before it
+export function undoTarget<Position, Move>(history: GameHistory<Position, Move>, humanMoves: (ply: number) => boolean): number | null {
+  for (let ply = history.ply - 1; ply >= 0; ply--) {
+    if (humanMoves(ply)) return ply;
+  }
+  return null;
+}
+
+// Redo plays the human move and the reply again, stopping at the next human move or the end of the game
+export function redoTarget<Position, Move>(history: GameHistory<Position, Move>, humanMoves: (ply: number) => boolean): number | null {
+  if (history.ply >= history.moves.length) return null;
+  for (let ply = history.ply + 1; ply < history.moves.length; ply++) {
+    if (humanMoves(ply)) return ply;
+  }
+  return history.moves.length;
+}
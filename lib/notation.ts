@@ -0,0 +1,361 @@
+// Game records as text - a PGN-style format for tic-tac-toe and PDN for Makhos, no React / no side effects
+
+import {
+  type Board as CellBoard,
+  type BoardSize,
+  type Side,
+  BOARD_SIZES,
+  BOARD_SIZE_LIST,
+  checkWinner,
+  createBoard,
+  isBoardFull,
+  opponentOf
+} from './tictactoe';
+import {
+  type Board,
+  type Color,
+  type Move,
+  type Piece,
+  type Position,
+  type Variant,
+  DEFAULT_VARIANT,
+  VARIANTS,
+  applyMove,
+  drawReason,
+  extendHistory,
+  getIndex,
+  getPosition,
+  initialPosition,
+  isValidSquare,
+  legalMoves,
+  positionKey,
+  result,
+  setupError
+} from './makhos';
+
+// An import that cannot be replayed - `moveNumber` points at the offending move when there is one
+export class NotationError extends Error {
+  moveNumber: number | null;
+
+  constructor(message: string, moveNumber: number | null = null) {
+    super(moveNumber === null ? message : `Move ${moveNumber}: ${message}`);
+    this.name = 'NotationError';
+    this.moveNumber = moveNumber;
+  }
+}
+
+export type Headers = Record<string, string>;
+
+// 1-0 when the first-named side (X, or Black in Makhos) won, 0-1 when the other did, * while the game goes on
+export type GameResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+// Also the 2-0 / 1-1 scoring some draughts records use - dropped like the rest of the result
+const RESULTS: string[] = ['1-0', '0-1', '1/2-1/2', '*', '2-0', '0-2', '1-1'];
+
+// [Name "value"] lines, in the order given
+const formatHeaders = (headers: Headers): string =>
+  Object.entries(headers).map(([name, value]) => `[${name} "${value.replace(/"/g, "'")}"]`).join('\n');
+
+// Header lines and the move tokens after them - comments, move numbers and the result are dropped
+function splitRecord(text: string): { headers: Headers; tokens: string[] } {
+  const headers: Headers = {};
+  const body = text.replace(/^\s*\[(\w+)\s+"([^"]*)"\]\s*$/gm, (_, name: string, value: string) => {
+    headers[name] = value;
+    return '';
+  });
+
+  const tokens = body
+    .replace(/\{[^}]*\}/g, ' ')
+    .replace(/\d+\.(\.\.)?/g, ' ')
+    .split(/\s+/)
+    .filter(token => token !== '' && !RESULTS.includes(token));
+  return { headers, tokens };
+}
+
+// "1. a b 2. c d" - moves numbered in pairs from whoever opened
+const formatMoveText = (tokens: string[], result: GameResult): string =>
+  [...tokens.map((token, ply) => (ply % 2 === 0 ? `${ply / 2 + 1}. ${token}` : token)), result].join(' ');
+
+// ---------------------------------------------------------------------------------------------
+// Tic-tac-toe: cells as a1-style coordinates (file a from the left, rank 1 at the bottom) or, on
+// import, as numbers 1-9 in reading order
+
+export interface TicTacToeGame {
+  boardSize: BoardSize;
+  starter: Side;
+  moves: number[];  // Cell indices in the order they were played
+}
+
+export function cellName(index: number, size: number): string {
+  const row = Math.floor(index / size);
+  const col = index % size;
+  return `${String.fromCharCode(97 + col)}${size - row}`;
+}
+
+// Index of `a1`, `c3` or `5`, or -1 when it is not a cell of the board
+export function cellIndex(name: string, size: number): number {
+  const coordinate = /^([a-z])(\d+)$/.exec(name.toLowerCase());
+  if (coordinate) {
+    const col = coordinate[1].charCodeAt(0) - 97;
+    const row = size - Number(coordinate[2]);
+    return col < size && row >= 0 && row < size ? row * size + col : -1;
+  }
+  if (/^\d+$/.test(name) && Number(name) >= 1 && Number(name) <= size * size) return Number(name) - 1;
+  return -1;
+}
+
+// Every position of the game, from the empty board - throws NotationError on a taken cell or a move after the end
+export function replayTicTacToe({ boardSize, starter, moves }: TicTacToeGame, names: string[] = []): CellBoard[] {
+  const settings = BOARD_SIZES[boardSize];
+  const positions = [createBoard(settings)];
+  let side = starter;
+
+  moves.forEach((cell, ply) => {
+    const board = positions[ply];
+    const label = names[ply] ?? cellName(cell, settings.size);
+    if (checkWinner(board) || isBoardFull(board)) throw new NotationError(`${label} comes after the game is over`, Math.floor(ply / 2) + 1);
+    if (board[cell] !== null) throw new NotationError(`${label} is already taken`, Math.floor(ply / 2) + 1);
+
+    const next = [...board];
+    next[cell] = side;
+    positions.push(next);
+    side = opponentOf(side);
+  });
+  return positions;
+}
+
+export function ticTacToeResult(board: CellBoard): GameResult {
+  const winner = checkWinner(board);
+  if (winner) return winner === 'X' ? '1-0' : '0-1';
+  return isBoardFull(board) ? '1/2-1/2' : '*';
+}
+
+// Board, Starter and Result are always written; `headers` adds the players, difficulty and so on
+export function formatTicTacToe(game: TicTacToeGame, headers: Headers = {}): string {
+  const { size } = BOARD_SIZES[game.boardSize];
+  const positions = replayTicTacToe(game);
+  const result = ticTacToeResult(positions[positions.length - 1]);
+  const tags = { Game: 'Tic-Tac-Toe', ...headers, Board: game.boardSize, Starter: game.starter, Result: result };
+  return `${formatHeaders(tags)}\n\n${formatMoveText(game.moves.map(cell => cellName(cell, size)), result)}\n`;
+}
+
+export function parseTicTacToe(text: string): { game: TicTacToeGame; headers: Headers; positions: CellBoard[] } {
+  const { headers, tokens } = splitRecord(text);
+
+  const boardSize = (headers.Board ?? '3x3') as BoardSize;
+  if (!BOARD_SIZE_LIST.includes(boardSize)) throw new NotationError(`Unknown board "${headers.Board}"`);
+  const starter = headers.Starter ?? 'X';
+  if (starter !== 'X' && starter !== 'O') throw new NotationError(`Starter must be X or O, not "${starter}"`);
+
+  const { size } = BOARD_SIZES[boardSize];
+  const moves = tokens.map((token, ply) => {
+    const cell = cellIndex(token, size);
+    if (cell === -1) throw new NotationError(`"${token}" is not a cell of the ${boardSize} board`, Math.floor(ply / 2) + 1);
+    return cell;
+  });
+
+  const game: TicTacToeGame = { boardSize, starter, moves };
+  return { game, headers, positions: replayTicTacToe(game, tokens) };
+}
+
+// ---------------------------------------------------------------------------------------------
+// Makhos: PDN with the dark squares numbered 1-32. Square 1 is the far-left dark square on Black's
+// home row as seen from White, so Black starts on 1-12 and White on 21-32, as in English draughts
+
+export interface MakhosGame {
+  start: Position;
+  moves: Move[];
+}
+
+// PDN game types of the variants that have one
+const GAME_TYPES: Partial<Record<Variant, string>> = { english: '21', russian: '25', thai: '31' };
+
+export function squareNumber(index: number): number {
+  const [row, col] = getPosition(index);
+  return (7 - row) * 4 + Math.floor((7 - col) / 2) + 1;
+}
+
+// 64-square index of PDN square 1-32, or -1
+export function squareIndex(square: number): number {
+  if (!Number.isInteger(square) || square < 1 || square > 32) return -1;
+  const row = 7 - Math.floor((square - 1) / 4);
+  const base = 7 - ((square - 1) % 4) * 2;
+  // Of the two columns that halve to the same number, the dark one
+  return isValidSquare(row, base) ? getIndex(row, base) : getIndex(row, base - 1);
+}
+
+// 11-15 for a step, 15x24x31 for a multi-jump with every landing square
+export const formatPdnMove = (move: Move): string =>
+  [move.from, ...move.path].map(squareNumber).join(move.captures.length > 0 ? 'x' : '-');
+
+// "B:W21,22,K30:B1,2,K9" - the side to move, then each colour's squares with K before a king
+export function toFen({ board, turn }: Position): string {
+  const squares = (color: 'B' | 'W') =>
+    board
+      .map((piece, index) => (piece && piece[0] === color ? `${piece[1] === 'K' ? 'K' : ''}${squareNumber(index)}` : null))
+      .filter(square => square !== null)
+      .sort((a, b) => Number(a.replace('K', '')) - Number(b.replace('K', '')))
+      .join(',');
+  return `${turn}:W${squares('W')}:B${squares('B')}`;
+}
+
+// Set-up positions are only accepted when they can be played from
+const checkedSetup = (position: Position): Position => {
+  const problem = setupError(position);
+  if (problem) throw new NotationError(problem);
+  return position;
+};
+
+export function parseFen(fen: string, variant: Variant = DEFAULT_VARIANT): Position {
+  const [turn, ...sides] = fen.trim().split(':');
+  if ((turn !== 'B' && turn !== 'W') || sides.length !== 2) throw new NotationError(`"${fen}" is not a FEN position`);
+
+  const board: Board = Array(64).fill(null);
+  for (const side of sides) {
+    const color = side[0];
+    if (color !== 'B' && color !== 'W') throw new NotationError(`"${side}" must start with B or W`);
+    for (const entry of side.slice(1).split(',').filter(Boolean)) {
+      const king = entry.startsWith('K');
+      const index = squareIndex(Number(king ? entry.slice(1) : entry));
+      if (index === -1) throw new NotationError(`"${entry}" is not a square from 1 to 32`);
+      if (board[index]) throw new NotationError(`Square ${entry.replace('K', '')} is given twice`);
+      board[index] = `${color}${king ? 'K' : 'P'}`;
+    }
+  }
+  return checkedSetup({ board, turn, variant });
+}
+
+// ---------------------------------------------------------------------------------------------
+// Position strings for the whole 64-square board: "1w1w1w1w/w1w1w1w1/8/8/8/8/1b1b1b1b/b1b1b1b1 b" lists the
+// rows from the top (White's home row) down - b and w for men, B and W for kings, a digit for a run of empty
+// squares - then the side to move
+
+const PIECE_LETTERS: Record<NonNullable<Piece>, string> = { BP: 'b', WP: 'w', BK: 'B', WK: 'W' };
+
+const LETTER_PIECES: Record<string, Piece> = Object.fromEntries(
+  Object.entries(PIECE_LETTERS).map(([piece, letter]) => [letter, piece as Piece])
+);
+
+export function toPositionString({ board, turn }: Position): string {
+  const rows = [];
+  for (let row = 0; row < 8; row++) {
+    let text = '';
+    let empty = 0;
+    for (const piece of board.slice(row * 8, row * 8 + 8)) {
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      text += `${empty || ''}${PIECE_LETTERS[piece]}`;
+      empty = 0;
+    }
+    rows.push(`${text}${empty || ''}`);
+  }
+  return `${rows.join('/')} ${turn.toLowerCase()}`;
+}
+
+export function parsePositionString(text: string, variant: Variant = DEFAULT_VARIANT): Position {
+  const [placement, side, ...rest] = text.trim().split(/\s+/);
+  const rows = placement.split('/');
+  if (rows.length !== 8 || !/^[bw]$/i.test(side ?? '') || rest.length > 0) {
+    throw new NotationError(`"${text.trim()}" is not a position string - 8 rows split by / and then b or w`);
+  }
+
+  const board: Board = [];
+  rows.forEach((row, index) => {
+    const squares: Board = [];
+    for (const char of row) {
+      if (/[1-8]/.test(char)) squares.push(...Array(Number(char)).fill(null));
+      else if (char in LETTER_PIECES) squares.push(LETTER_PIECES[char]);
+      else throw new NotationError(`"${char}" in row ${index + 1} is not b, w, B, W or a digit`);
+    }
+    if (squares.length !== 8) throw new NotationError(`Row ${index + 1} covers ${squares.length} squares instead of 8`);
+    board.push(...squares);
+  });
+  return checkedSetup({ board, turn: side.toUpperCase() as Color, variant });
+}
+
+// Either string format - the PDN FEN starts with the side to move and a colon
+export const parseSetup = (text: string, variant: Variant = DEFAULT_VARIANT): Position =>
+  /^\s*[BW]:/.test(text) ? parseFen(text, variant) : parsePositionString(text, variant);
+
+// The result of the position the game ended on, given the keys since the last irreversible move
+export function makhosResult(position: Position, history: string[]): GameResult {
+  const winner = result(position);
+  if (winner) return winner === 'B' ? '1-0' : '0-1';
+  return drawReason(position, history) ? '1/2-1/2' : '*';
+}
+
+// Replays PDN move tokens from `start` through the rules engine - the moves they stand for, every position
+// and the repetition keys at the end. Throws NotationError on an illegal move, naming a missed forced capture
+export function replayMakhos(start: Position, tokens: string[]): { moves: Move[]; positions: Position[]; history: string[] } {
+  const moves: Move[] = [];
+  const positions = [start];
+  let history = [positionKey(start)];
+
+  tokens.forEach((token, ply) => {
+    const position = positions[ply];
+    const moveNumber = Math.floor(ply / 2) + 1;
+    const legal = legalMoves(position);
+    if (legal.length === 0 || drawReason(position, history)) throw new NotationError(`${token} comes after the game is over`, moveNumber);
+
+    const squares = token.split(/[-x]/).map(square => squareIndex(Number(square)));
+    if (squares.length < 2 || squares.includes(-1)) throw new NotationError(`"${token}" is not a move between squares 1-32`, moveNumber);
+
+    const [from, ...landings] = squares;
+    // A capture may be written with just its first and last square
+    const matches = legal.filter(move =>
+      move.from === from &&
+      move.path[move.path.length - 1] === landings[landings.length - 1] &&
+      (landings.length === 1 || move.path.join() === landings.join())
+    );
+
+    if (matches.length === 0) {
+      const forced = legal[0].captures.length > 0 && !token.includes('x');
+      throw new NotationError(forced ? `${token} ignores a forced capture` : `${token} is not a legal move`, moveNumber);
+    }
+    if (matches.length > 1) throw new NotationError(`${token} could be more than one capture - list every landing square`, moveNumber);
+
+    const after = applyMove(position, matches[0]);
+    history = extendHistory(history, position, matches[0], after);
+    moves.push(matches[0]);
+    positions.push(after);
+  });
+  return { moves, positions, history };
+}
+
+// GameType, Variant, FEN (unless the game starts from the usual opening with Black to move) and Result
+// are always written; `headers` adds the players and the like
+export function formatPdn(game: MakhosGame, headers: Headers = {}): string {
+  const variant = game.start.variant ?? DEFAULT_VARIANT;
+  const tokens = game.moves.map(formatPdnMove);
+  const { positions, history } = replayMakhos(game.start, tokens);
+  const result = headers.Result ?? makhosResult(positions[positions.length - 1], history);
+
+  const opening = initialPosition('B', variant);
+  const standardStart = positionKey(game.start) === positionKey(opening);
+  const tags: Headers = {
+    Event: 'หมากฮอส',
+    ...headers,
+    ...(GAME_TYPES[variant] ? { GameType: GAME_TYPES[variant] } : {}),
+    Variant: variant,
+    ...(standardStart ? {} : { FEN: toFen(game.start) }),
+    Result: result
+  };
+  return `${formatHeaders(tags)}\n\n${formatMoveText(tokens, result as GameResult)}\n`;
+}
+
+export function parsePdn(text: string): { game: MakhosGame; headers: Headers; positions: Position[] } {
+  const { headers, tokens } = splitRecord(text);
+
+  // Variant names this app writes first, then the PDN game type
+  const byGameType = (Object.keys(GAME_TYPES) as Variant[]).find(variant => GAME_TYPES[variant] === headers.GameType?.split(',')[0]);
+  const variant = headers.Variant && headers.Variant in VARIANTS ? (headers.Variant as Variant) : byGameType ?? DEFAULT_VARIANT;
+  if (headers.GameType && !byGameType && !(headers.Variant && headers.Variant in VARIANTS)) {
+    throw new NotationError(`GameType ${headers.GameType} is not one of the variants played here`);
+  }
+
+  const start = headers.FEN ? parseFen(headers.FEN, variant) : initialPosition('B', variant);
+  const { moves, positions } = replayMakhos(start, tokens);
+  return { game: { start, moves }, headers, positions };
+}
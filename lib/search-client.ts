@@ -0,0 +1,107 @@
+// Main-thread side of the search worker - one promise per search, resolved with null when cancelled or when the worker fails
+
+import type {
+  GomokuSearch,
+  GomokuSearchResult,
+  MakhosSearch,
+  MakhosSearchResult,
+  SearchProgressUpdate,
+  SearchRequest,
+  SearchResponse,
+  TicTacToeSearch,
+  TicTacToeSearchResult,
+  UltimateSearch,
+  UltimateSearchResult
+} from './search-protocol';
+
+type SearchResult = MakhosSearchResult | TicTacToeSearchResult | GomokuSearchResult | UltimateSearchResult;
+
+interface PendingSearch {
+  resolve: (result: SearchResult | null) => void;
+  onProgress?: (progress: SearchProgressUpdate) => void;
+}
+
+export class SearchClient {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingSearch>();
+
+  searchMakhos(
+    search: Omit<MakhosSearch, 'game'>,
+    onProgress?: (progress: SearchProgressUpdate) => void
+  ): Promise<MakhosSearchResult | null> {
+    return this.start({ game: 'makhos', ...search }, onProgress) as Promise<MakhosSearchResult | null>;
+  }
+
+  searchTicTacToe(search: Omit<TicTacToeSearch, 'game'>): Promise<TicTacToeSearchResult | null> {
+    return this.start({ game: 'tictactoe', ...search }) as Promise<TicTacToeSearchResult | null>;
+  }
+
+  searchGomoku(search: Omit<GomokuSearch, 'game'>): Promise<GomokuSearchResult | null> {
+    return this.start({ game: 'gomoku', ...search }) as Promise<GomokuSearchResult | null>;
+  }
+
+  searchUltimate(search: Omit<UltimateSearch, 'game'>): Promise<UltimateSearchResult | null> {
+    return this.start({ game: 'ultimate', ...search }) as Promise<UltimateSearchResult | null>;
+  }
+
+  // Stop every running search; their promises resolve with null
+  cancel() {
+    for (const [id, { resolve }] of this.pending) {
+      this.post({ type: 'cancel', id });
+      resolve(null);
+    }
+    this.pending.clear();
+  }
+
+  dispose() {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private start(search: MakhosSearch | TicTacToeSearch | GomokuSearch | UltimateSearch, onProgress?: (progress: SearchProgressUpdate) => void): Promise<SearchResult | null> {
+    const id = this.nextId++;
+    return new Promise(resolve => {
+      this.pending.set(id, { resolve, onProgress });
+      this.post({ type: 'search', id, ...search });
+    });
+  }
+
+  private post(request: SearchRequest) {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./search.worker.ts', import.meta.url));
+      this.worker.onmessage = (event: MessageEvent<SearchResponse>) => this.handle(event.data);
+      this.worker.onerror = () => this.fail();
+      this.worker.onmessageerror = () => this.fail();
+    }
+    this.worker.postMessage(request);
+  }
+
+  // The worker threw or could not load: every search it had is lost, and the next one starts a fresh worker
+  private fail() {
+    console.error('Search worker failed');
+    for (const { resolve } of this.pending.values()) resolve(null);
+    this.pending.clear();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private handle(response: SearchResponse) {
+    // Responses for searches that were already cancelled are dropped here
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+
+    if (response.type === 'progress') {
+      pending.onProgress?.({ depth: response.depth, completed: response.completed, total: response.total });
+      return;
+    }
+
+    this.pending.delete(response.id);
+    if (response.type === 'cancelled') {
+      pending.resolve(null);
+    } else {
+      pending.resolve(response.result);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+// Messages exchanged between the pages and the search worker (lib/search.worker.ts)
+
+import type { Board as MakhosBoard, Color, Move as MakhosMove, Variant } from './makhos';
+import type { Difficulty as MakhosDifficulty, RootEvaluation } from './makhos-ai';
+import type { Agent, Board as TicTacToeBoard, Difficulty as TicTacToeDifficulty, MoveAnalysis, Side } from './tictactoe';
+import type { Board as GomokuBoard, GomokuMove, Stone } from './gomoku';
+import type { UltimateBestMove, UltimateState } from './ultimate';
+
+export interface MakhosSearch {
+  game: 'makhos';
+  board: MakhosBoard;
+  difficulty: MakhosDifficulty;
+  variant?: Variant;
+  budgetMs?: number;
+  side?: Color;
+}
+
+export interface TicTacToeSearch {
+  game: 'tictactoe';
+  board: TicTacToeBoard;
+  side: Side;
+  difficulty: TicTacToeDifficulty;
+  agent?: Agent;  // Spectator matches play a named agent instead of the difficulty level
+}
+
+export interface GomokuSearch {
+  game: 'gomoku';
+  board: GomokuBoard;
+  stone: Stone;
+}
+
+export interface UltimateSearch {
+  game: 'ultimate';
+  state: UltimateState;
+  difficulty: TicTacToeDifficulty;
+}
+
+export type SearchRequest =
+  | ({ type: 'search'; id: number } & (MakhosSearch | TicTacToeSearch | GomokuSearch | UltimateSearch))
+  | { type: 'cancel'; id: number };
+
+export interface MakhosSearchResult {
+  game: 'makhos';
+  move: MakhosMove | null;
+  score: number;
+  evaluations: RootEvaluation[];
+  missedChains: boolean;
+  depth: number;
+  nodes: number;
+  pv: MakhosMove[];
+}
+
+export interface TicTacToeSearchResult {
+  game: 'tictactoe';
+  move: number;
+  analysis: MoveAnalysis[];
+}
+
+export interface GomokuSearchResult extends GomokuMove {
+  game: 'gomoku';
+}
+
+export interface UltimateSearchResult extends UltimateBestMove {
+  game: 'ultimate';
+}
+
+export interface SearchProgressUpdate {
+  depth?: number;  // Iterative-deepening depth, Makhos only
+  completed: number;
+  total: number;
+}
+
+export type SearchResponse =
+  | ({ type: 'progress'; id: number } & SearchProgressUpdate)
+  | { type: 'result'; id: number; result: MakhosSearchResult | TicTacToeSearchResult | GomokuSearchResult | UltimateSearchResult }
+  | { type: 'cancelled'; id: number };
@@ -0,0 +1,72 @@
+// Runs Barron AI searches off the main thread - see lib/search-protocol.ts for the messages
+
+import { searchRoot } from './makhos-ai';
+import { AGENTS, getDifficultyMove } from './tictactoe';
+import { getGomokuMove } from './gomoku';
+import { getUltimateMove } from './ultimate';
+import type { MakhosSearch, SearchRequest, SearchResponse } from './search-protocol';
+
+// Only one search runs at a time - a new request or a cancel stops the current one at its next step
+let activeId: number | null = null;
+
+const post = (message: SearchResponse) => self.postMessage(message);
+
+function runMakhosSearch(id: number, { board, difficulty, variant, budgetMs, side }: MakhosSearch) {
+  const search = searchRoot(board, difficulty, { variant, budgetMs, side });
+
+  const step = () => {
+    if (activeId !== id) {
+      post({ type: 'cancelled', id });
+      return;
+    }
+
+    const next = search.next();
+    if (next.done) {
+      activeId = null;
+      post({ type: 'result', id, result: { game: 'makhos', ...next.value } });
+      return;
+    }
+
+    post({ type: 'progress', id, depth: next.value.depth, completed: next.value.completed, total: next.value.total });
+    // Yield to the message queue between root moves so cancel requests get through
+    setTimeout(step, 0);
+  };
+
+  step();
+}
+
+self.onmessage = (event: MessageEvent<SearchRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    if (activeId === request.id) activeId = null;
+    return;
+  }
+
+  activeId = request.id;
+
+  if (request.game === 'tictactoe') {
+    const { move, analysis } = request.agent
+      ? AGENTS[request.agent].play(request.board, request.side, Math.random)
+      : getDifficultyMove(request.board, request.side, request.difficulty);
+    activeId = null;
+    post({ type: 'result', id: request.id, result: { game: 'tictactoe', move, analysis } });
+    return;
+  }
+
+  if (request.game === 'gomoku') {
+    const found = getGomokuMove(request.board, request.stone);
+    activeId = null;
+    post({ type: 'result', id: request.id, result: { game: 'gomoku', ...found } });
+    return;
+  }
+
+  if (request.game === 'ultimate') {
+    const found = getUltimateMove(request.state, request.difficulty);
+    activeId = null;
+    post({ type: 'result', id: request.id, result: { game: 'ultimate', ...found } });
+    return;
+  }
+
+  runMakhosSearch(request.id, request);
+};
@@ -0,0 +1,771 @@
+// Tic-Tac-Toe engine - pure rules and Barron AI, no React / no side effects
+
+export type Side = 'X' | 'O';
+export type Player = Side | null;
+export type Board = Player[];
+
+export interface MoveAnalysis {
+  position: number;
+  score: number;
+  reasoning: string;
+  winningMove: boolean;
+  blockingMove: boolean;
+  strategicValue: number;
+}
+
+export interface BestMove {
+  move: number;
+  analysis: MoveAnalysis[];
+}
+
+// An m,n,k-game on a square board: `size` x `size` cells, `winLength` in a row wins
+export interface Geometry {
+  size: number;
+  winLength: number;
+}
+
+export type BoardSize = '3x3' | '4x4' | '5x5';
+
+export interface BoardSettings extends Geometry {
+  label: string;
+}
+
+export const BOARD_SIZES: Record<BoardSize, BoardSettings> = {
+  '3x3': { label: '3×3', size: 3, winLength: 3 },
+  '4x4': { label: '4×4', size: 4, winLength: 4 },
+  '5x5': { label: '5×5 · 4 in a row', size: 5, winLength: 4 }
+};
+
+export const BOARD_SIZE_LIST = Object.keys(BOARD_SIZES) as BoardSize[];
+
+export const CLASSIC: Geometry = BOARD_SIZES['3x3'];
+
+export const isClassic = ({ size, winLength }: Geometry): boolean =>
+  size === CLASSIC.size && winLength === CLASSIC.winLength;
+
+// The preset a board belongs to, worked out from its cell count
+export function geometryOf(board: Board): Geometry {
+  const preset = Object.values(BOARD_SIZES).find(({ size }) => size * size === board.length);
+  if (preset) return preset;
+  const size = Math.round(Math.sqrt(board.length));
+  return { size, winLength: size };
+}
+
+const lineCache = new Map<string, number[][]>();
+
+// Every run of `winLength` cells along a row, column or diagonal - generated once per geometry
+export function winningLines({ size, winLength }: Geometry): number[][] {
+  const key = `${size}:${winLength}`;
+  const cached = lineCache.get(key);
+  if (cached) return cached;
+
+  const lines: number[][] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      for (const [dr, dc] of [[0, 1], [1, 0], [1, 1], [1, -1]]) {
+        const endRow = row + dr * (winLength - 1);
+        const endCol = col + dc * (winLength - 1);
+        if (endRow >= size || endCol < 0 || endCol >= size) continue;
+        lines.push(Array.from({ length: winLength }, (_, step) => (row + dr * step) * size + col + dc * step));
+      }
+    }
+  }
+
+  lineCache.set(key, lines);
+  return lines;
+}
+
+export const WINNING_COMBINATIONS = winningLines(CLASSIC);
+
+// The STEP 1-8 cascade and the full search below only run on the classic 3×3 board
+const CORNERS = [0, 2, 6, 8];
+const SIDES = [1, 3, 5, 7];
+const CENTER = 4;
+
+const ADJACENT_TO_CORNER: Record<number, number[]> = {
+  0: [1, 3],
+  2: [1, 5],
+  6: [3, 7],
+  8: [5, 7]
+};
+
+export const opponentOf = (side: Side): Side => (side === 'X' ? 'O' : 'X');
+
+export const createBoard = ({ size }: Geometry = CLASSIC): Board => Array(size * size).fill(null);
+
+export function checkWinner(board: Board, geometry: Geometry = geometryOf(board)): Player {
+  for (const line of winningLines(geometry)) {
+    const first = board[line[0]];
+    if (first && line.every(cell => board[cell] === first)) return first;
+  }
+  return null;
+}
+
+export function isBoardFull(board: Board): boolean {
+  return board.every(cell => cell !== null);
+}
+
+export function getAvailableMoves(board: Board): number[] {
+  const moves: number[] = [];
+  for (let i = 0; i < board.length; i++) {
+    if (board[i] === null) moves.push(i);
+  }
+  return moves;
+}
+
+const countLine = (board: Board, line: number[], cell: Player): number =>
+  line.filter(index => board[index] === cell).length;
+
+// ให้ความสำคัญกับมุมและกลาง
+const movePriority = (index: number): number => (CORNERS.includes(index) ? 3 : (index === CENTER ? 5 : 1));
+
+// Fork bonus for the side that just moved - kept far below the gaps between win, draw and loss scores
+// so it only ever breaks ties inside the same outcome
+const FORK_BONUS = 50;
+
+function forkBonus(board: Board, side: Side): number {
+  let threatLines = 0;
+  for (const combo of WINNING_COMBINATIONS) {
+    if (countLine(board, combo, side) === 2 && countLine(board, combo, null) === 1) {
+      threatLines++;
+    }
+  }
+  return threatLines >= 2 ? FORK_BONUS : 0;
+}
+
+// Hyper-aggressive Minimax that hates draws (scores are from `side`'s point of view)
+export function minimax(
+  board: Board,
+  depth: number,
+  isMaximizing: boolean,
+  side: Side,
+  alpha: number = -Infinity,
+  beta: number = Infinity
+): number {
+  const opponent = opponentOf(side);
+  const winner = checkWinner(board);
+
+  if (winner === side) return 10000 - depth;
+  if (winner === opponent) return depth - 10000;
+  if (isBoardFull(board)) return -100 - depth;
+
+  if (isMaximizing) {
+    let maxEval = -Infinity;
+
+    // เรียงลำดับ moves ตาม strategic value
+    const moves = getAvailableMoves(board).sort((a, b) => movePriority(b) - movePriority(a));
+
+    for (const index of moves) {
+      board[index] = side;
+
+      // ตรวจสอบ fork opportunities - the window is shifted by the bonus so pruning stays exact
+      const bonus = forkBonus(board, side);
+      const evaluation = minimax(board, depth + 1, false, side, alpha - bonus, beta - bonus) + bonus;
+      board[index] = null;
+
+      maxEval = Math.max(maxEval, evaluation);
+      alpha = Math.max(alpha, evaluation);
+      if (beta <= alpha) break;
+    }
+    return maxEval;
+  } else {
+    let minEval = Infinity;
+
+    for (const index of getAvailableMoves(board)) {
+      board[index] = opponent;
+      const evaluation = minimax(board, depth + 1, true, side, alpha, beta);
+      board[index] = null;
+      minEval = Math.min(minEval, evaluation);
+      beta = Math.min(beta, evaluation);
+      if (beta <= alpha) break;
+    }
+    return minEval;
+  }
+}
+
+export type Outcome = 'win' | 'draw' | 'loss';
+
+// Minimax scores fall in three bands far apart from each other, whatever fork bonuses were collected
+export const outcomeOf = (score: number): Outcome => (score > 5000 ? 'win' : score < -5000 ? 'loss' : 'draw');
+
+const SEARCH_REASONING: Record<Outcome, string> = {
+  win: 'SEARCH: FORCED WIN',
+  draw: 'SEARCH: HOLDS THE DRAW',
+  loss: 'SEARCH: LOSES AGAINST PERFECT PLAY'
+};
+
+// Barron AI search - score every legal move with the full minimax and rank them best first
+export function getSearchMove(input: Board, side: Side): BestMove {
+  const board = [...input];
+  const opponent = opponentOf(side);
+
+  const analysis = getAvailableMoves(board).map((position): MoveAnalysis => {
+    board[position] = opponent;
+    const blockingMove = checkWinner(board) === opponent;
+
+    board[position] = side;
+    const winningMove = checkWinner(board) === side;
+    const bonus = forkBonus(board, side);
+    const score = minimax(board, 1, false, side) + bonus;
+    board[position] = null;
+
+    return {
+      position,
+      score,
+      reasoning: `${SEARCH_REASONING[outcomeOf(score)]}${bonus > 0 ? ' (FORK)' : ''}`,
+      winningMove,
+      blockingMove,
+      strategicValue: movePriority(position)
+    };
+  });
+
+  // Equal scores fall back to the center / corner / side preference
+  analysis.sort((a, b) => b.score - a.score || b.strategicValue - a.strategicValue);
+
+  return { move: analysis.length > 0 ? analysis[0].position : -1, analysis };
+}
+
+// STEP 3 + 4 of the cascade - make our own fork, or stop the opponent from making one
+function findForkMove(board: Board, side: Side): MoveAnalysis | null {
+  const opponent = opponentOf(side);
+
+  // STEP 3: Create a fork (two winning threats) - Enhanced with priority scoring
+  let bestForkMove = -1;
+  let bestForkScore = 0;
+
+  for (const i of getAvailableMoves(board)) {
+    board[i] = side;
+
+    let threatLines = 0;
+    let forkQuality = 0;
+
+    for (const combo of WINNING_COMBINATIONS) {
+      if (countLine(board, combo, side) === 2 && countLine(board, combo, null) === 1) {
+        threatLines++;
+        // Bonus for corner-based winning lines (harder to block)
+        forkQuality += CORNERS.some(corner => combo.includes(corner)) ? 2 : 1;
+      }
+    }
+
+    if (threatLines >= 2) {
+      const forkScore = threatLines * 1000 + forkQuality * 500;
+      if (forkScore > bestForkScore) {
+        bestForkScore = forkScore;
+        bestForkMove = i;
+      }
+    }
+
+    board[i] = null;
+  }
+
+  if (bestForkMove !== -1) {
+    return {
+      position: bestForkMove,
+      score: 40000 + bestForkScore,
+      reasoning: `STEP 3: CREATE SUPERIOR FORK - Quality Score: ${bestForkScore}`,
+      winningMove: false,
+      blockingMove: false,
+      strategicValue: Math.floor(bestForkScore / 100)
+    };
+  }
+
+  // STEP 4: Block opponent's fork - Prevent opponent from creating fork opportunities
+
+  // Special case: If opponent has opposite corners, we MUST play a side (not corner)
+  const opponentCorners = CORNERS.filter(pos => board[pos] === opponent);
+  if (opponentCorners.length === 2 && opponentCorners[0] + opponentCorners[1] === 8) {
+    const sides = SIDES.filter(pos => board[pos] === null);
+    if (sides.length > 0) {
+      return {
+        position: sides[0],
+        score: 45000,
+        reasoning: 'STEP 4: PREVENT OPPOSITE CORNER FORK',
+        winningMove: false,
+        blockingMove: true,
+        strategicValue: 45
+      };
+    }
+  }
+
+  // For each possible AI move, check if it allows the opponent to create a fork
+  const safeMoves: number[] = [];
+  let hasDangerousMove = false;
+
+  for (const aiMove of getAvailableMoves(board)) {
+    board[aiMove] = side;
+
+    let maxOpponentThreats = 0;
+    for (const opponentMove of getAvailableMoves(board)) {
+      board[opponentMove] = opponent;
+
+      // Count how many winning threats the opponent would have
+      let threats = 0;
+      for (const checkPos of getAvailableMoves(board)) {
+        board[checkPos] = opponent;
+        if (checkWinner(board) === opponent) threats++;
+        board[checkPos] = null;
+      }
+
+      maxOpponentThreats = Math.max(maxOpponentThreats, threats);
+      board[opponentMove] = null;
+    }
+
+    board[aiMove] = null;
+
+    if (maxOpponentThreats >= 2) {
+      hasDangerousMove = true;
+    } else {
+      safeMoves.push(aiMove);
+    }
+  }
+
+  if (hasDangerousMove && safeMoves.length > 0) {
+    // Prefer corners, then center, then sides
+    const preferredSafe = safeMoves.find(pos => CORNERS.includes(pos)) ||
+                          safeMoves.find(pos => pos === CENTER) ||
+                          safeMoves[0];
+    return {
+      position: preferredSafe,
+      score: 35000,
+      reasoning: 'STEP 4: PREVENT OPPONENT FORK',
+      winningMove: false,
+      blockingMove: true,
+      strategicValue: 35
+    };
+  }
+
+  return null;
+}
+
+const single = (analysis: MoveAnalysis): BestMove => ({ move: analysis.position, analysis: [analysis] });
+
+export interface HeuristicOptions {
+  seesForks?: boolean;
+}
+
+// ULTRA PERFECT AI - the STEP 1-8 pattern cascade, played for `side`
+export function getHeuristicMove(input: Board, side: Side, options: HeuristicOptions = {}): BestMove {
+  const board = [...input];
+  const opponent = opponentOf(side);
+
+  // STEP 1: Win immediately if possible
+  for (const i of getAvailableMoves(board)) {
+    board[i] = side;
+    const wins = checkWinner(board) === side;
+    board[i] = null;
+    if (wins) {
+      return single({
+        position: i,
+        score: 100000,
+        reasoning: 'STEP 1: IMMEDIATE WIN',
+        winningMove: true,
+        blockingMove: false,
+        strategicValue: 100
+      });
+    }
+  }
+
+  // STEP 2: Block opponent's immediate win (including preventing forks)
+  const blockingMoves: number[] = [];
+  for (const i of getAvailableMoves(board)) {
+    board[i] = opponent;
+    if (checkWinner(board) === opponent) blockingMoves.push(i);
+    board[i] = null;
+  }
+
+  if (blockingMoves.length > 0) {
+    // More than one threat means the opponent already has a fork - block one of them anyway
+    return single({
+      position: blockingMoves[0],
+      score: 50000,
+      reasoning: blockingMoves.length > 1 ? 'STEP 2: BLOCK OPPONENT WIN (FORK DETECTED)' : 'STEP 2: BLOCK OPPONENT WIN',
+      winningMove: false,
+      blockingMove: true,
+      strategicValue: 50
+    });
+  }
+
+  // STEP 3 + 4: Forks - skipped by the lower difficulty levels
+  if (options.seesForks ?? true) {
+    const fork = findForkMove(board, side);
+    if (fork) return single(fork);
+  }
+
+  // STEP 5: Advanced Center Strategy
+  if (board[CENTER] === null) {
+    // Count potential winning lines through center
+    board[CENTER] = side;
+    let centerAdvantage = 0;
+    for (const combo of WINNING_COMBINATIONS.filter(line => line.includes(CENTER))) {
+      if (countLine(board, combo, side) === 1 && countLine(board, combo, null) === 2) {
+        centerAdvantage += 2;
+      }
+    }
+    board[CENTER] = null;
+
+    return single({
+      position: CENTER,
+      score: 20000 + centerAdvantage * 500,
+      reasoning: `STEP 5: TAKE STRATEGIC CENTER - Advantage: ${centerAdvantage}`,
+      winningMove: false,
+      blockingMove: false,
+      strategicValue: 20 + centerAdvantage
+    });
+  }
+
+  // STEP 6: Enhanced Opposite Corner Strategy
+  let bestCornerMove = -1;
+  let bestCornerValue = 0;
+
+  for (const [corner1, corner2] of [[0, 8], [8, 0], [2, 6], [6, 2]]) {
+    if (board[corner1] === opponent && board[corner2] === null) {
+      // Bonus if it creates multiple potential lines
+      let cornerValue = 10;
+      for (const adj of ADJACENT_TO_CORNER[corner2]) {
+        if (board[adj] === null) cornerValue += 2;
+      }
+
+      if (cornerValue > bestCornerValue) {
+        bestCornerValue = cornerValue;
+        bestCornerMove = corner2;
+      }
+    }
+  }
+
+  if (bestCornerMove !== -1) {
+    return single({
+      position: bestCornerMove,
+      score: 15000 + bestCornerValue * 200,
+      reasoning: `STEP 6: TAKE OPTIMAL OPPOSITE CORNER - Value: ${bestCornerValue}`,
+      winningMove: false,
+      blockingMove: false,
+      strategicValue: 15 + bestCornerValue
+    });
+  }
+
+  // STEP 7: Smart Corner Selection with Pattern Recognition
+  let bestCorner = -1;
+  let bestScore = 0;
+
+  for (const corner of CORNERS) {
+    if (board[corner] !== null) continue;
+
+    let score = 5; // Base score
+
+    // Bonus for corners that create multiple potential winning lines
+    for (const line of WINNING_COMBINATIONS.filter(combo => combo.includes(corner))) {
+      const ownCount = countLine(board, line, side);
+      const opponentCount = countLine(board, line, opponent);
+      if (ownCount === 0 && opponentCount === 0) score += 3; // Open line
+      if (ownCount === 1 && opponentCount === 0) score += 5; // Potential winning line
+    }
+
+    // Bonus for corners adjacent to empty spaces
+    for (const adj of ADJACENT_TO_CORNER[corner]) {
+      if (board[adj] === null) score += 1;
+    }
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestCorner = corner;
+    }
+  }
+
+  if (bestCorner !== -1) {
+    return single({
+      position: bestCorner,
+      score: 10000 + bestScore * 100,
+      reasoning: `STEP 7: TAKE STRATEGIC CORNER - Score: ${bestScore}`,
+      winningMove: false,
+      blockingMove: false,
+      strategicValue: 10 + bestScore
+    });
+  }
+
+  // STEP 8: Intelligent Side Selection (last resort but optimized)
+  let bestSide = -1;
+  let bestSideScore = 0;
+
+  for (const sidePos of SIDES) {
+    if (board[sidePos] !== null) continue;
+
+    let score = 1; // Base score
+
+    // Check if this side can contribute to future winning lines
+    for (const line of WINNING_COMBINATIONS.filter(combo => combo.includes(sidePos))) {
+      const ownCount = countLine(board, line, side);
+      const opponentCount = countLine(board, line, opponent);
+      if (ownCount === 1 && opponentCount === 0) score += 2; // Can extend our line
+      if (ownCount === 0 && opponentCount === 0) score += 1; // Neutral line
+    }
+
+    if (score > bestSideScore) {
+      bestSideScore = score;
+      bestSide = sidePos;
+    }
+  }
+
+  if (bestSide !== -1) {
+    return single({
+      position: bestSide,
+      score: 5000 + bestSideScore * 50,
+      reasoning: `STEP 8: TAKE OPTIMAL SIDE - Score: ${bestSideScore}`,
+      winningMove: false,
+      blockingMove: false,
+      strategicValue: 5 + bestSideScore
+    });
+  }
+
+  // Board is full - nothing to play
+  return { move: -1, analysis: [] };
+}
+
+// Bigger boards - depth-limited alpha-beta over the generated lines with a line-threat evaluation
+
+const LINE_WIN = 1_000_000;
+
+interface LineTable {
+  lines: number[][];
+  through: number[][][];  // Lines passing through each cell
+  order: number[];        // Cells nearest the centre first
+}
+
+function lineTable(geometry: Geometry): LineTable {
+  const lines = winningLines(geometry);
+  const cells = geometry.size * geometry.size;
+  const through = Array.from({ length: cells }, (): number[][] => []);
+  for (const line of lines) {
+    for (const cell of line) through[cell].push(line);
+  }
+
+  const middle = (geometry.size - 1) / 2;
+  const centreDistance = (cell: number) =>
+    Math.abs(Math.floor(cell / geometry.size) - middle) + Math.abs((cell % geometry.size) - middle);
+  const order = Array.from({ length: cells }, (_, cell) => cell).sort((a, b) => centreDistance(a) - centreDistance(b));
+
+  return { lines, through, order };
+}
+
+// Lines still open to only one side are threats worth 10^stones, so one stone short of a win outweighs everything else
+function evaluateLines(board: Board, side: Side, lines: number[][]): number {
+  let score = 0;
+  for (const line of lines) {
+    let own = 0;
+    let theirs = 0;
+    for (const cell of line) {
+      if (board[cell] === side) own++;
+      else if (board[cell] !== null) theirs++;
+    }
+    if (theirs === 0 && own > 0) score += 10 ** own;
+    else if (own === 0 && theirs > 0) score -= 10 ** theirs;
+  }
+  return score;
+}
+
+const wonThrough = (board: Board, cell: number, table: LineTable): boolean =>
+  table.through[cell].some(line => line.every(index => board[index] === board[cell]));
+
+// Scores are from `side`'s point of view after `lastMove`; quicker wins score higher
+function lineSearch(
+  board: Board,
+  depth: number,
+  alpha: number,
+  beta: number,
+  isMaximizing: boolean,
+  side: Side,
+  table: LineTable,
+  lastMove: number
+): number {
+  if (wonThrough(board, lastMove, table)) {
+    return board[lastMove] === side ? LINE_WIN + depth : -LINE_WIN - depth;
+  }
+
+  const moves = table.order.filter(cell => board[cell] === null);
+  if (moves.length === 0) return 0;
+  if (depth === 0) return evaluateLines(board, side, table.lines);
+
+  const mover = isMaximizing ? side : opponentOf(side);
+  let best = isMaximizing ? -Infinity : Infinity;
+
+  for (const cell of moves) {
+    board[cell] = mover;
+    const evaluation = lineSearch(board, depth - 1, alpha, beta, !isMaximizing, side, table, cell);
+    board[cell] = null;
+
+    if (isMaximizing) {
+      best = Math.max(best, evaluation);
+      alpha = Math.max(alpha, evaluation);
+    } else {
+      best = Math.min(best, evaluation);
+      beta = Math.min(beta, evaluation);
+    }
+    if (beta <= alpha) break;
+  }
+  return best;
+}
+
+function lineReasoning(score: number, depth: number): string {
+  if (score > LINE_WIN / 2) return `LINE SEARCH: FORCED WIN (DEPTH ${depth})`;
+  if (score < -LINE_WIN / 2) return `LINE SEARCH: LOSES TO A FORCED LINE (DEPTH ${depth})`;
+  return `LINE SEARCH: THREAT SCORE ${score} (DEPTH ${depth})`;
+}
+
+// Barron AI on any board - every legal move searched `depth` plies deep with a full window, best first
+export function getLineSearchMove(input: Board, side: Side, depth: number, geometry: Geometry = geometryOf(input)): BestMove {
+  const board = [...input];
+  const opponent = opponentOf(side);
+  const table = lineTable(geometry);
+  const moves = table.order.filter(cell => board[cell] === null);
+
+  const analysis = moves.map((position, rank): MoveAnalysis => {
+    board[position] = opponent;
+    const blockingMove = wonThrough(board, position, table);
+
+    board[position] = side;
+    const winningMove = wonThrough(board, position, table);
+    const score = lineSearch(board, depth - 1, -Infinity, Infinity, false, side, table, position);
+    board[position] = null;
+
+    return {
+      position,
+      score,
+      reasoning: lineReasoning(score, depth),
+      winningMove,
+      blockingMove,
+      strategicValue: moves.length - rank
+    };
+  });
+
+  // Equal scores fall back to the cell nearest the centre
+  analysis.sort((a, b) => b.score - a.score || b.strategicValue - a.strategicValue);
+
+  return { move: analysis.length > 0 ? analysis[0].position : -1, analysis };
+}
+
+export type Strategy = 'search' | 'heuristic';
+
+export const STRATEGIES: Record<Strategy, (board: Board, side: Side) => BestMove> = {
+  search: getSearchMove,
+  heuristic: getHeuristicMove
+};
+
+export function getBestMove(board: Board, side: Side, strategy: Strategy = 'search'): BestMove {
+  return STRATEGIES[strategy](board, side);
+}
+
+export type Difficulty = 'beginner' | 'casual' | 'hard' | 'barron';
+
+export interface DifficultySettings {
+  label: string;
+  strategy: Strategy;
+  seesForks: boolean;   // Whether the heuristic cascade runs STEP 3/4
+  blunderRate: number;  // Chance of playing a random legal move instead
+  lineDepth: number;    // Plies the line search looks ahead on boards bigger than 3×3
+}
+
+export const DIFFICULTIES: Record<Difficulty, DifficultySettings> = {
+  beginner: { label: 'Beginner', strategy: 'heuristic', seesForks: false, blunderRate: 0.35, lineDepth: 1 },
+  casual: { label: 'Casual', strategy: 'heuristic', seesForks: false, blunderRate: 0.1, lineDepth: 2 },
+  hard: { label: 'Hard', strategy: 'heuristic', seesForks: true, blunderRate: 0.05, lineDepth: 3 },
+  barron: { label: 'Barron', strategy: 'search', seesForks: true, blunderRate: 0, lineDepth: 5 }
+};
+
+export const DIFFICULTY_LEVELS = Object.keys(DIFFICULTIES) as Difficulty[];
+
+// Barron AI played at a difficulty level - `random` is injectable so tests can force or forbid blunders.
+// Boards other than the classic 3×3 use the line search instead of the cascade / full search
+export function getDifficultyMove(
+  board: Board,
+  side: Side,
+  difficulty: Difficulty,
+  random: () => number = Math.random,
+  geometry: Geometry = geometryOf(board)
+): BestMove {
+  const settings = DIFFICULTIES[difficulty];
+  const available = getAvailableMoves(board);
+
+  if (available.length > 0 && random() < settings.blunderRate) {
+    const position = available[Math.floor(random() * available.length)];
+    return single({
+      position,
+      score: 0,
+      reasoning: `BLUNDER: RANDOM MOVE (${settings.label})`,
+      winningMove: false,
+      blockingMove: false,
+      strategicValue: 0
+    });
+  }
+
+  if (!isClassic(geometry)) return getLineSearchMove(board, side, settings.lineDepth, geometry);
+
+  return settings.strategy === 'heuristic'
+    ? getHeuristicMove(board, side, { seesForks: settings.seesForks })
+    : getBestMove(board, side, settings.strategy);
+}
+
+// Textbook minimax - no fork bonus, no move ordering, no pruning; scores from `side`'s point of view
+function plainMinimax(board: Board, toMove: Side, side: Side, depth: number): number {
+  const winner = checkWinner(board, CLASSIC);
+  if (winner) return winner === side ? 10 - depth : depth - 10;
+  if (isBoardFull(board)) return 0;
+
+  let best = toMove === side ? -Infinity : Infinity;
+  for (const index of getAvailableMoves(board)) {
+    board[index] = toMove;
+    const evaluation = plainMinimax(board, opponentOf(toMove), side, depth + 1);
+    board[index] = null;
+    best = toMove === side ? Math.max(best, evaluation) : Math.min(best, evaluation);
+  }
+  return best;
+}
+
+// Pure minimax on the 3×3 board - takes the first of the best moves in board order
+export function getMinimaxMove(input: Board, side: Side): BestMove {
+  const board = [...input];
+  const analysis = getAvailableMoves(board).map((position): MoveAnalysis => {
+    board[position] = side;
+    const score = plainMinimax(board, opponentOf(side), side, 1);
+    board[position] = null;
+    return {
+      position,
+      score,
+      reasoning: `MINIMAX: ${score > 0 ? 'WIN' : score < 0 ? 'LOSS' : 'DRAW'}`,
+      winningMove: false,
+      blockingMove: false,
+      strategicValue: 0
+    };
+  });
+
+  const best = analysis.reduce<MoveAnalysis | null>((top, entry) => (!top || entry.score > top.score ? entry : top), null);
+  return { move: best ? best.position : -1, analysis: best ? [best, ...analysis.filter(entry => entry !== best)] : [] };
+}
+
+export function getRandomMove(board: Board, random: () => number = Math.random): BestMove {
+  const available = getAvailableMoves(board);
+  if (available.length === 0) return { move: -1, analysis: [] };
+  return single({
+    position: available[Math.floor(random() * available.length)],
+    score: 0,
+    reasoning: 'RANDOM MOVE',
+    winningMove: false,
+    blockingMove: false,
+    strategicValue: 0
+  });
+}
+
+// Players for AI-vs-AI spectator matches on the 3×3 board
+export type Agent = 'barron' | 'heuristic' | 'minimax' | 'random';
+
+export interface AgentSettings {
+  label: string;
+  play: (board: Board, side: Side, random: () => number) => BestMove;
+}
+
+export const AGENTS: Record<Agent, AgentSettings> = {
+  barron: { label: 'Barron AI', play: (board, side) => getSearchMove(board, side) },
+  heuristic: { label: 'Heuristic', play: (board, side) => getHeuristicMove(board, side) },
+  minimax: { label: 'Minimax', play: (board, side) => getMinimaxMove(board, side) },
+  random: { label: 'Random', play: (board, _side, random) => getRandomMove(board, random) }
+};
+
+export const AGENT_LIST = Object.keys(AGENTS) as Agent[];
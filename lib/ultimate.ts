@@ -0,0 +1,201 @@
+// Ultimate tic-tac-toe - nine 3×3 boards on a 3×3 meta-board, rules and Barron AI alpha-beta, no React / no side effects
+
+import {
+  type Board,
+  type Difficulty,
+  type Player,
+  type Side,
+  DIFFICULTIES,
+  WINNING_COMBINATIONS,
+  checkWinner,
+  createBoard,
+  isBoardFull,
+  opponentOf
+} from './tictactoe';
+
+export interface UltimateMove {
+  board: number;  // Small board, in meta-board order
+  cell: number;   // Cell inside that board
+}
+
+export interface UltimateState {
+  boards: Board[];
+  meta: Board;            // Who won each small board
+  active: number | null;  // Small board the side to move has to play in; null = any open board
+  turn: Side;
+}
+
+export const createUltimate = (turn: Side = 'X'): UltimateState => ({
+  boards: Array.from({ length: 9 }, () => createBoard()),
+  meta: createBoard(),
+  active: null,
+  turn
+});
+
+// A small board is closed once somebody won it or it filled up
+export const isClosed = (state: UltimateState, index: number): boolean =>
+  state.meta[index] !== null || isBoardFull(state.boards[index]);
+
+export const ultimateWinner = (state: UltimateState): Player => checkWinner(state.meta);
+
+export const isUltimateOver = (state: UltimateState): boolean =>
+  ultimateWinner(state) !== null || state.boards.every((_, index) => isClosed(state, index));
+
+export function legalUltimateMoves(state: UltimateState): UltimateMove[] {
+  if (ultimateWinner(state)) return [];
+
+  const open = state.active !== null ? [state.active] : state.boards.map((_, index) => index).filter(index => !isClosed(state, index));
+  const moves: UltimateMove[] = [];
+  for (const board of open) {
+    for (let cell = 0; cell < 9; cell++) {
+      if (state.boards[board][cell] === null) moves.push({ board, cell });
+    }
+  }
+  return moves;
+}
+
+// The cell just played picks the small board the opponent has to answer in, unless that board is closed
+export function playUltimate(state: UltimateState, { board, cell }: UltimateMove): UltimateState {
+  const boards = [...state.boards];
+  boards[board] = [...boards[board]];
+  boards[board][cell] = state.turn;
+
+  const meta = [...state.meta];
+  if (meta[board] === null) meta[board] = checkWinner(boards[board]);
+
+  const next: UltimateState = { boards, meta, active: null, turn: opponentOf(state.turn) };
+  next.active = isClosed(next, cell) ? null : cell;
+  return next;
+}
+
+const WIN_SCORE = 100000;
+
+// ให้ความสำคัญกับกลางและมุม - on the small boards and the meta-board alike
+const SQUARE_WEIGHT = [3, 2, 3, 2, 4, 2, 3, 2, 3];
+
+// Lines still open to one side only: one mark is worth 1, two marks (a threat) 10
+function lineThreats(board: Board, side: Side, dead: (index: number) => boolean = () => false): number {
+  let score = 0;
+  for (const line of WINNING_COMBINATIONS) {
+    if (line.some(dead)) continue;
+    const own = line.filter(index => board[index] === side).length;
+    const theirs = line.filter(index => board[index] !== null && board[index] !== side).length;
+    if (theirs === 0 && own > 0) score += own === 2 ? 10 : 1;
+    else if (own === 0 && theirs > 0) score -= theirs === 2 ? 10 : 1;
+  }
+  return score;
+}
+
+// Meta-board evaluation from `side`'s point of view: won boards and meta lines dominate, small-board threats break ties
+export function evaluateUltimate(state: UltimateState, side: Side): number {
+  const winner = ultimateWinner(state);
+  if (winner) return winner === side ? WIN_SCORE : -WIN_SCORE;
+
+  let score = 0;
+  for (let index = 0; index < 9; index++) {
+    const owner = state.meta[index];
+    if (owner) {
+      score += (owner === side ? 100 : -100) * SQUARE_WEIGHT[index];
+    } else if (!isClosed(state, index)) {
+      score += lineThreats(state.boards[index], side) * SQUARE_WEIGHT[index];
+    }
+  }
+
+  // Drawn boards block every meta line through them
+  const drawn = (index: number) => state.meta[index] === null && isClosed(state, index);
+  score += lineThreats(state.meta, side, drawn) * 50;
+
+  // A free choice of board is worth something to whoever has it
+  if (state.active === null) score += state.turn === side ? 30 : -30;
+
+  return score;
+}
+
+// Moves that win a small board first, then by square weight
+function orderMoves(state: UltimateState, moves: UltimateMove[]): UltimateMove[] {
+  const value = ({ board, cell }: UltimateMove) => {
+    const small = [...state.boards[board]];
+    small[cell] = state.turn;
+    return (checkWinner(small) ? 100 * SQUARE_WEIGHT[board] : 0) + SQUARE_WEIGHT[cell];
+  };
+  return moves.map(move => ({ move, value: value(move) })).sort((a, b) => b.value - a.value).map(({ move }) => move);
+}
+
+export function ultimateMinimax(
+  state: UltimateState,
+  depth: number,
+  alpha: number,
+  beta: number,
+  side: Side
+): number {
+  const winner = ultimateWinner(state);
+  // Quicker wins and slower losses score better
+  if (winner) return winner === side ? WIN_SCORE + depth : -WIN_SCORE - depth;
+
+  const moves = legalUltimateMoves(state);
+  if (moves.length === 0) return 0;
+  if (depth === 0) return evaluateUltimate(state, side);
+
+  const isMaximizing = state.turn === side;
+  let best = isMaximizing ? -Infinity : Infinity;
+
+  for (const move of orderMoves(state, moves)) {
+    const evaluation = ultimateMinimax(playUltimate(state, move), depth - 1, alpha, beta, side);
+    if (isMaximizing) {
+      best = Math.max(best, evaluation);
+      alpha = Math.max(alpha, evaluation);
+    } else {
+      best = Math.min(best, evaluation);
+      beta = Math.min(beta, evaluation);
+    }
+    if (beta <= alpha) break;
+  }
+  return best;
+}
+
+// Plies Barron AI looks ahead per level - the meta search replaces the 3×3 cascade, which does not scale
+export const ULTIMATE_DEPTHS: Record<Difficulty, number> = {
+  beginner: 1,
+  casual: 2,
+  hard: 4,
+  barron: 6
+};
+
+export interface UltimateBestMove {
+  move: UltimateMove | null;
+  score: number;
+  reasoning: string;
+}
+
+// Barron AI for the side to move - `random` is injectable so tests can force or forbid blunders
+export function getUltimateMove(
+  state: UltimateState,
+  difficulty: Difficulty,
+  random: () => number = Math.random
+): UltimateBestMove {
+  const settings = DIFFICULTIES[difficulty];
+  const moves = legalUltimateMoves(state);
+  if (moves.length === 0) return { move: null, score: 0, reasoning: 'GAME OVER' };
+
+  if (random() < settings.blunderRate) {
+    const move = moves[Math.floor(random() * moves.length)];
+    return { move, score: 0, reasoning: `BLUNDER: RANDOM MOVE (${settings.label})` };
+  }
+
+  const depth = ULTIMATE_DEPTHS[difficulty];
+  let best: UltimateBestMove = { move: moves[0], score: -Infinity, reasoning: '' };
+  let alpha = -Infinity;
+
+  for (const move of orderMoves(state, moves)) {
+    const score = ultimateMinimax(playUltimate(state, move), depth - 1, alpha, Infinity, state.turn);
+    if (score > best.score) best = { move, score, reasoning: '' };
+    alpha = Math.max(alpha, score);
+  }
+
+  best.reasoning = best.score > WIN_SCORE / 2
+    ? `META SEARCH: FORCED WIN (DEPTH ${depth})`
+    : best.score < -WIN_SCORE / 2
+      ? `META SEARCH: LOSES AGAINST PERFECT PLAY (DEPTH ${depth})`
+      : `META SEARCH: SCORE ${best.score} (DEPTH ${depth})`;
+  return best;
+}
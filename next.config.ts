@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Makhos used to be served from /gomoku - keep old links and bookmarks working
+  async redirects() {
+    return [{ source: "/gomoku", destination: "/makhos", permanent: true }];
+  },
 };
 
 export default nextConfig;
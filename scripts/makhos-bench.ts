@@ -0,0 +1,68 @@
+// Node counts of the Makhos search with and without the transposition table - run with `npm run bench`
+
+import type { Board, Piece } from '../lib/makhos';
+import { type SearchContext, minimax } from '../lib/makhos-ai';
+import { TranspositionTable } from '../lib/makhos-tt';
+
+const DEPTH = 7;
+
+// Rows top (row 0) to bottom; b/w = men, B/W = kings, . = empty
+const POSITIONS: Record<string, string[]> = {
+  opening: [
+    '.w.w.w.w',
+    'w.w.w.w.',
+    '.w.w.w.w',
+    '........',
+    '........',
+    'b.b.b.b.',
+    '.b.b.b.b',
+    'b.b.b.b.'
+  ],
+  middlegame: [
+    '.w.w...w',
+    'w...w.w.',
+    '...w.w..',
+    '..w.....',
+    '.b...b..',
+    '..b.b...',
+    '.b.....b',
+    'b.b.b...'
+  ],
+  endgame: [
+    '........',
+    '..W.....',
+    '.....w..',
+    '........',
+    '...b....',
+    '......B.',
+    '.b......',
+    '........'
+  ]
+};
+
+const PIECES: Record<string, Piece> = { b: 'BP', w: 'WP', B: 'BK', W: 'WK' };
+
+const parseBoard = (rows: string[]): Board => rows.flatMap(row => [...row].map(square => PIECES[square] ?? null));
+
+function search(board: Board, table: TranspositionTable | null) {
+  const context: SearchContext = { nodes: 0, deadline: Infinity, now: Date.now, table };
+  const start = Date.now();
+  const score = minimax(board, DEPTH, -Infinity, Infinity, true, context);
+  return { score, nodes: context.nodes, ms: Date.now() - start };
+}
+
+console.log(`White to move, depth ${DEPTH}\n`);
+console.log('position      nodes (no TT)   nodes (TT)   saved   score');
+
+for (const [name, rows] of Object.entries(POSITIONS)) {
+  const board = parseBoard(rows);
+  const without = search(board, null);
+  const withTable = search(board, new TranspositionTable());
+  const saved = Math.round((1 - withTable.nodes / without.nodes) * 100);
+  const score = without.score === withTable.score ? `${without.score}` : `${without.score} vs ${withTable.score} (MISMATCH)`;
+
+  console.log(
+    `${name.padEnd(12)}${without.nodes.toLocaleString().padStart(15)}${withTable.nodes.toLocaleString().padStart(13)}${`${saved}%`.padStart(8)}   ${score}` +
+    `   (${without.ms} ms / ${withTable.ms} ms)`
+  );
+}
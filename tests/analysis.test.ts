@@ -0,0 +1,75 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { type Board, getMinimaxMove } from '../lib/tictactoe';
+import { type Board as MakhosBoard, getIndex, legalMoves } from '../lib/makhos';
+import { MAN_SCORE, searchBestMove } from '../lib/makhos-ai';
+import { barShare, gradeLoss, graphPoints, reviewMakhosPly, reviewTicTacToePly, ticTacToeEvaluation } from '../lib/analysis';
+
+describe('tic-tac-toe review', () => {
+  // X opened in a corner - only the centre holds the draw for O
+  const cornerOpening: Board = ['X', null, null, null, null, null, null, null, null];
+
+  test('the centre reply to a corner opening is best', () => {
+    const review = reviewTicTacToePly(1, getMinimaxMove(cornerOpening, 'O').analysis, 4, 'O');
+    assert.equal(review.quality, 'best');
+    assert.equal(review.evaluation, 0);
+    assert.equal(review.lostTheDraw, false);
+  });
+
+  test('an edge reply turns the draw into a loss', () => {
+    const review = reviewTicTacToePly(1, getMinimaxMove(cornerOpening, 'O').analysis, 1, 'O');
+    assert.equal(review.quality, 'blunder');
+    assert.equal(review.best, 4);
+    assert.equal(review.evaluation, 1);
+    assert.ok(review.lostTheDraw);
+  });
+
+  test('a slower win is an inaccuracy', () => {
+    // 8 wins at once, 3 forks and wins a move later
+    const board: Board = ['X', 'O', 'O', null, 'X', null, null, null, null];
+    const review = reviewTicTacToePly(4, getMinimaxMove(board, 'X').analysis, 3, 'X');
+    assert.equal(review.quality, 'inaccuracy');
+    assert.equal(review.best, 8);
+  });
+
+  test('the evaluation is the outcome with best play, seen from X', () => {
+    const board: Board = ['X', 'O', 'O', null, 'X', null, null, null, null];
+    assert.equal(ticTacToeEvaluation(getMinimaxMove(board, 'X').analysis, 'X'), 1);
+    assert.equal(ticTacToeEvaluation(getMinimaxMove(cornerOpening, 'O').analysis, 'O'), 0);
+  });
+});
+
+describe('Makhos review', () => {
+  test('losses are graded in men given away', () => {
+    assert.equal(gradeLoss(20), 'best');
+    assert.equal(gradeLoss(MAN_SCORE / 3), 'inaccuracy');
+    assert.equal(gradeLoss(MAN_SCORE * 0.75), 'mistake');
+    assert.equal(gradeLoss(MAN_SCORE), 'blunder');
+  });
+
+  test('a move that hangs a man is a blunder and names the engine move instead', () => {
+    // Black to move: stepping the man on 5,2 to 4,3 lets the White man on 3,4 jump it
+    const board: MakhosBoard = Array(64).fill(null);
+    const pieces = [[5, 2, 'BP'], [6, 5, 'BP'], [6, 7, 'BP'], [3, 4, 'WP'], [1, 0, 'WP'], [1, 2, 'WP']] as const;
+    for (const [row, col, piece] of pieces) board[getIndex(row, col)] = piece;
+    const hanging = legalMoves({ board, turn: 'B' }).find(move => move.from === getIndex(5, 2) && move.path[0] === getIndex(4, 3))!;
+
+    let clock = 0;
+    const { evaluations } = searchBestMove(board, 'expert', { side: 'B', budgetMs: 0, now: () => clock++, random: () => 0.5 });
+    const review = reviewMakhosPly(0, evaluations, hanging, 'B');
+
+    assert.equal(review.quality, 'blunder');
+    assert.notDeepEqual(review.best, hanging);
+    assert.ok(review.evaluation >= MAN_SCORE);
+  });
+});
+
+test('graph points run left to right with positive values on top', () => {
+  assert.equal(graphPoints([0, 1, -1, 5], 30, 20, 1), '0.0,10.0 10.0,0.0 20.0,20.0 30.0,0.0');
+});
+
+test('the evaluation bar is split evenly when level and fills up at the range', () => {
+  assert.equal(barShare(0, 500), 0.5);
+  assert.equal(barShare(250, 500), 0.75);
+  assert.equal(barShare(-2000, 500), 0);
+});
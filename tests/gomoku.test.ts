@@ -0,0 +1,73 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { type Board, type Stone, CENTER, SIZE, checkWinner, createBoard, findFive, getGomokuMove } from '../lib/gomoku';
+
+// Empty board with the given stones, keyed by [row, col]
+function boardWith(stones: [number, number, Stone][]): Board {
+  const board = createBoard();
+  for (const [row, col, stone] of stones) board[row * SIZE + col] = stone;
+  return board;
+}
+
+const at = (row: number, col: number) => row * SIZE + col;
+
+describe('rules', () => {
+  test('five in a diagonal wins', () => {
+    const board = boardWith([[3, 3, 'O'], [4, 4, 'O'], [5, 5, 'O'], [6, 6, 'O'], [7, 7, 'O']]);
+    assert.deepEqual(findFive(board), [at(3, 3), at(4, 4), at(5, 5), at(6, 6), at(7, 7)]);
+    assert.equal(checkWinner(board), 'O');
+  });
+
+  test('four in a row is not a win', () => {
+    const board = boardWith([[7, 3, 'X'], [7, 4, 'X'], [7, 5, 'X'], [7, 6, 'X'], [7, 7, 'O']]);
+    assert.equal(findFive(board), null);
+    assert.equal(checkWinner(board), null);
+  });
+
+  test('a line does not wrap around the board edge', () => {
+    const board = boardWith([[0, 12, 'X'], [0, 13, 'X'], [0, 14, 'X'], [1, 0, 'X'], [1, 1, 'X']]);
+    assert.equal(checkWinner(board), null);
+  });
+});
+
+describe('getGomokuMove', () => {
+  test('opens in the centre', () => {
+    assert.equal(getGomokuMove(createBoard(), 'X').move, CENTER);
+  });
+
+  test('completes its own five before blocking', () => {
+    const board = boardWith([
+      [7, 3, 'O'], [7, 4, 'O'], [7, 5, 'O'], [7, 6, 'O'],
+      [9, 3, 'X'], [9, 4, 'X'], [9, 5, 'X'], [9, 6, 'X']
+    ]);
+    const { move, reasoning } = getGomokuMove(board, 'O');
+    assert.ok(move === at(7, 2) || move === at(7, 7));
+    assert.match(reasoning, /^WIN/);
+  });
+
+  test('blocks an open four end', () => {
+    const board = boardWith([[7, 3, 'X'], [7, 4, 'X'], [7, 5, 'X'], [7, 6, 'X'], [7, 7, 'O'], [8, 8, 'O']]);
+    assert.equal(getGomokuMove(board, 'O').move, at(7, 2));
+  });
+
+  test('finds a winning sequence of fours', () => {
+    // Two broken threes sharing (7, 7): playing there makes a double four
+    const board = boardWith([
+      [7, 4, 'O'], [7, 5, 'O'], [7, 6, 'O'], [7, 3, 'X'],
+      [4, 7, 'O'], [5, 7, 'O'], [6, 7, 'O'], [3, 7, 'X'],
+      [10, 10, 'X'], [11, 11, 'X']
+    ]);
+    const { move, reasoning, sequence } = getGomokuMove(board, 'O');
+    assert.equal(move, at(7, 7));
+    assert.match(reasoning, /^VCF/);
+    assert.equal(sequence[0], move);
+  });
+
+  test('stops an open three', () => {
+    const board = boardWith([[7, 5, 'X'], [7, 6, 'X'], [7, 7, 'X'], [8, 8, 'O'], [9, 9, 'O']]);
+    const { move, reasoning } = getGomokuMove(board, 'O');
+    assert.match(reasoning, /^DEFEND/);
+    // The ends of the three, or one further out, keep X from an open four
+    assert.ok([at(7, 3), at(7, 4), at(7, 8), at(7, 9)].includes(move));
+  });
+});
@@ -0,0 +1,357 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  type Board,
+  type Piece,
+  type Position,
+  DRAW_MOVE_LIMIT,
+  VARIANTS,
+  applyMove,
+  drawReason,
+  extendHistory,
+  initializeBoard,
+  positionKey,
+  getIndex,
+  initialPosition,
+  legalMoves,
+  mirrorBoard,
+  mirrorMove,
+  result
+} from '../lib/makhos';
+import { type SearchContext, DIFFICULTIES, acceptsDraw, evaluateBoard, minimax, quiescence, randomMove, searchBestMove } from '../lib/makhos-ai';
+import { TranspositionTable, hashPosition } from '../lib/makhos-tt';
+
+// Empty board with the given pieces, keyed by [row, col]
+function boardWith(pieces: [number, number, Piece][]): Board {
+  const board: Board = Array(64).fill(null);
+  for (const [row, col, piece] of pieces) board[getIndex(row, col)] = piece;
+  return board;
+}
+
+describe('legalMoves', () => {
+  test('Black has 7 opening moves', () => {
+    assert.equal(legalMoves(initialPosition()).length, 7);
+  });
+
+  test('capturing is mandatory', () => {
+    const board = boardWith([[5, 2, 'BP'], [4, 3, 'WP'], [6, 7, 'BP']]);
+    const moves = legalMoves({ board, turn: 'B' });
+
+    assert.deepEqual(moves, [{ from: getIndex(5, 2), path: [getIndex(3, 4)], captures: [getIndex(4, 3)] }]);
+  });
+
+  test('a multi-jump chain is one move that ends only when no jump is left', () => {
+    const board = boardWith([[6, 1, 'BP'], [5, 2, 'WP'], [3, 4, 'WP'], [0, 7, 'WP']]);
+    const [move, ...rest] = legalMoves({ board, turn: 'B' });
+
+    assert.equal(rest.length, 0);
+    assert.deepEqual(move.path, [getIndex(4, 3), getIndex(2, 5)]);
+    assert.deepEqual(move.captures, [getIndex(5, 2), getIndex(3, 4)]);
+
+    const after = applyMove({ board, turn: 'B' }, move);
+    assert.equal(after.board.filter(piece => piece === 'WP').length, 1);
+    assert.equal(after.turn, 'W');
+  });
+
+  test('every branch of a chain is its own move', () => {
+    // After the first jump the man can carry on to either side
+    const board = boardWith([[6, 3, 'BP'], [5, 4, 'WP'], [3, 4, 'WP'], [3, 6, 'WP']]);
+    const moves = legalMoves({ board, turn: 'B' });
+
+    assert.deepEqual(moves.map(move => move.path), [
+      [getIndex(4, 5), getIndex(2, 3)],
+      [getIndex(4, 5), getIndex(2, 7)]
+    ]);
+    assert.ok(moves.every(move => move.captures.length === 2));
+  });
+
+  test('the side with no moves left loses', () => {
+    const board = boardWith([[0, 1, 'WP'], [7, 0, 'BP']]);
+    assert.equal(result({ board, turn: 'W' }), null);
+    assert.equal(result({ board: boardWith([[7, 0, 'BP']]), turn: 'W' }), 'B');
+  });
+
+  test("the mirrored board gives White exactly Black's moves", () => {
+    const board = boardWith([[6, 3, 'BP'], [5, 4, 'WP'], [3, 4, 'WP'], [3, 6, 'WP'], [7, 0, 'BK']]);
+    const mirrored = mirrorBoard(board);
+
+    assert.deepEqual(mirrorBoard(mirrored), board);
+    assert.equal(mirrored[63 - getIndex(7, 0)], 'WK');
+    // Same moves, generated in the opposite square order
+    const key = (move: { from: number; path: number[] }) => [move.from, ...move.path].join('-');
+    assert.deepEqual(
+      legalMoves({ board: mirrored, turn: 'W' }).map(mirrorMove).map(key).sort(),
+      legalMoves({ board, turn: 'B' }).map(key).sort()
+    );
+  });
+});
+
+describe('kings', () => {
+  test('a Thai king slides any distance along a free diagonal', () => {
+    const board = boardWith([[7, 0, 'BK'], [0, 1, 'WP']]);
+    const moves = legalMoves({ board, turn: 'B' });
+
+    assert.deepEqual(moves.map(move => move.path[0]), [6, 5, 4, 3, 2, 1, 0].map(row => getIndex(row, 7 - row)));
+  });
+
+  test('a Thai king captures from a distance and lands right behind the piece', () => {
+    const board = boardWith([[7, 0, 'BK'], [3, 4, 'WP']]);
+    const moves = legalMoves({ board, turn: 'B' });
+
+    assert.deepEqual(moves, [{ from: getIndex(7, 0), path: [getIndex(2, 5)], captures: [getIndex(3, 4)] }]);
+  });
+
+  test('the simplified variant keeps the one-step king', () => {
+    const board = boardWith([[7, 0, 'BK'], [3, 4, 'WP']]);
+    const moves = legalMoves({ board, turn: 'B', variant: 'simplified' });
+
+    assert.deepEqual(moves, [{ from: getIndex(7, 0), path: [getIndex(6, 1)], captures: [] }]);
+  });
+
+  test('a man crowned mid-capture stops there under Thai rules', () => {
+    const board = boardWith([[2, 1, 'BP'], [1, 2, 'WP'], [1, 4, 'WP']]);
+
+    assert.deepEqual(legalMoves({ board, turn: 'B' }).map(move => move.path), [[getIndex(0, 3)]]);
+    assert.deepEqual(legalMoves({ board, turn: 'B', variant: 'simplified' }).map(move => move.path), [[getIndex(0, 3), getIndex(2, 5)]]);
+  });
+});
+
+describe('rule variants', () => {
+  test('Thai starts on two rows of men, the others on three', () => {
+    assert.equal(initializeBoard('thai').filter(piece => piece === 'BP').length, 8);
+    for (const variant of ['english', 'russian', 'simplified'] as const) {
+      assert.equal(initializeBoard(variant).filter(piece => piece === 'WP').length, 12);
+    }
+  });
+
+  test('Russian men capture backwards, Thai and English men do not', () => {
+    const board = boardWith([[3, 2, 'BP'], [4, 3, 'WP'], [0, 7, 'WP']]);
+
+    assert.deepEqual(legalMoves({ board, turn: 'B', variant: 'russian' }).map(move => move.captures), [[getIndex(4, 3)]]);
+    for (const variant of ['thai', 'english'] as const) {
+      assert.ok(legalMoves({ board, turn: 'B', variant }).every(move => move.captures.length === 0));
+    }
+  });
+
+  test('English kings only step one square', () => {
+    const board = boardWith([[7, 0, 'BK'], [0, 1, 'WP']]);
+    assert.deepEqual(legalMoves({ board, turn: 'B', variant: 'english' }).map(move => move.path), [[getIndex(6, 1)]]);
+  });
+
+  test('a Russian man crowned mid-capture jumps on as a flying king', () => {
+    const board = boardWith([[2, 1, 'BP'], [1, 2, 'WP'], [3, 6, 'WP']]);
+    const [move] = legalMoves({ board, turn: 'B', variant: 'russian' });
+
+    assert.deepEqual(move.captures, [getIndex(1, 2), getIndex(3, 6)]);
+  });
+
+  test('a Russian king may land anywhere past the piece, but must pick a square that carries on capturing', () => {
+    const open = boardWith([[7, 0, 'BK'], [5, 2, 'WP']]);
+    assert.deepEqual(
+      legalMoves({ board: open, turn: 'B', variant: 'russian' }).map(move => move.path[0]),
+      [getIndex(4, 3), getIndex(3, 4), getIndex(2, 5), getIndex(1, 6), getIndex(0, 7)]
+    );
+
+    const onward = boardWith([[7, 0, 'BK'], [5, 2, 'WP'], [2, 3, 'WP']]);
+    const moves = legalMoves({ board: onward, turn: 'B', variant: 'russian' });
+    assert.ok(moves.every(move => move.path[0] === getIndex(3, 4) && move.captures.length === 2));
+  });
+
+  test('a Russian king cannot jump back over a piece it already took - it stays on the board until the move ends', () => {
+    // Removed at once, the man on 2,1 would leave the king a clear run back down to the man on 6,5
+    const board = boardWith([[3, 2, 'BK'], [2, 1, 'WP'], [6, 5, 'WP']]);
+    const moves = legalMoves({ board, turn: 'B', variant: 'russian' });
+
+    assert.deepEqual(moves.map(move => move.captures), [[getIndex(2, 1)], [getIndex(6, 5)]]);
+    assert.deepEqual(applyMove({ board, turn: 'B', variant: 'russian' }, moves[0]).board, boardWith([[1, 0, 'BK'], [6, 5, 'WP']]));
+  });
+
+  test('with maximumCapture the chain taking the most pieces must be played', () => {
+    const board = boardWith([[5, 2, 'BP'], [4, 1, 'WP'], [4, 3, 'WP'], [2, 5, 'WP']]);
+    assert.equal(legalMoves({ board, turn: 'B', variant: 'thai' }).length, 2);
+
+    // No shipped rule set takes the most pieces, so Thai rules are switched over for this test only
+    const thai = VARIANTS.thai;
+    VARIANTS.thai = { ...thai, maximumCapture: true };
+    try {
+      assert.deepEqual(legalMoves({ board, turn: 'B', variant: 'thai' }).map(move => move.path), [[getIndex(3, 4), getIndex(1, 6)]]);
+    } finally {
+      VARIANTS.thai = thai;
+    }
+  });
+});
+
+describe('draws', () => {
+  // Plays `moves` from `position`, keeping the history the page keeps
+  const play = (board: Board, moves: [number, number][]) => {
+    let position: Position = { board, turn: 'B' };
+    let history = [positionKey(position)];
+    for (const [from, to] of moves) {
+      const move = legalMoves(position).find(candidate => candidate.from === from && candidate.path[0] === to)!;
+      const after = applyMove(position, move);
+      history = extendHistory(history, position, move, after);
+      position = after;
+    }
+    return { position, history };
+  };
+
+  test('a lone king each is a draw', () => {
+    const board = boardWith([[7, 0, 'BK'], [0, 7, 'WK']]);
+    assert.equal(drawReason({ board, turn: 'B' }, [positionKey({ board, turn: 'B' })]), 'insufficient-material');
+  });
+
+  test('the same position a third time is a draw', () => {
+    const board = boardWith([[7, 0, 'BK'], [6, 7, 'BP'], [0, 1, 'WK'], [1, 0, 'WP']]);
+    const shuffle: [number, number][] = [
+      [getIndex(7, 0), getIndex(6, 1)], [getIndex(0, 1), getIndex(1, 2)],
+      [getIndex(6, 1), getIndex(7, 0)], [getIndex(1, 2), getIndex(0, 1)]
+    ];
+
+    const once = play(board, shuffle);
+    assert.equal(drawReason(once.position, once.history), null);
+    const twice = play(board, [...shuffle, ...shuffle]);
+    assert.equal(drawReason(twice.position, twice.history), 'repetition');
+  });
+
+  test('a man moving resets the count', () => {
+    const board = boardWith([[7, 0, 'BK'], [6, 7, 'BP'], [0, 1, 'WK'], [1, 0, 'WP']]);
+    const { history } = play(board, [[getIndex(6, 7), getIndex(5, 6)]]);
+    assert.equal(history.length, 1);
+  });
+
+  test(`${DRAW_MOVE_LIMIT} quiet moves each is a draw`, () => {
+    const board = boardWith([[7, 0, 'BK'], [6, 7, 'BP'], [0, 1, 'WK'], [1, 0, 'WP']]);
+    const history = Array.from({ length: DRAW_MOVE_LIMIT * 2 + 1 }, (_, i) => `quiet ${i}`);
+    assert.equal(drawReason({ board, turn: 'B' }, history), 'move-limit');
+    assert.equal(drawReason({ board, turn: 'B' }, history.slice(1)), null);
+  });
+
+  test('the AI turns down a draw when it is a piece up and takes one when it is a piece down', () => {
+    const pieceUp = boardWith([[0, 1, 'WP'], [0, 3, 'WP'], [0, 5, 'WP'], [7, 0, 'BP'], [7, 2, 'BP']]);
+    const pieceDown = boardWith([[0, 1, 'WP'], [7, 0, 'BP'], [7, 2, 'BP'], [7, 4, 'BP']]);
+
+    assert.equal(acceptsDraw(pieceUp), false);
+    assert.equal(acceptsDraw(pieceDown), true);
+    // The same positions with the colours swapped, and the AI playing Black
+    assert.equal(acceptsDraw(mirrorBoard(pieceUp), 'thai', 'B'), false);
+    assert.equal(acceptsDraw(mirrorBoard(pieceDown), 'thai', 'B'), true);
+  });
+});
+
+describe('searchBestMove', () => {
+  test('Expert picks the capture that cannot be taken back', () => {
+    const board = boardWith([[1, 2, 'WP'], [2, 1, 'BP'], [2, 3, 'BP'], [4, 3, 'BP'], [5, 2, 'BP']]);
+    const { move } = searchBestMove(board, 'expert', { budgetMs: Infinity, random: () => 0.5 });
+
+    assert.deepEqual(move?.path, [getIndex(3, 0)]);
+  });
+
+  test('iterative deepening reports depth, nodes and a principal variation', () => {
+    const board = initialPosition().board;
+    const { move, depth, nodes, pv } = searchBestMove(board, 'easy', { budgetMs: Infinity, random: () => 0.5 });
+
+    assert.equal(depth, 8 + DIFFICULTIES.easy.depthOffset);
+    assert.ok(nodes > 0);
+    assert.equal(pv[0], move);
+    assert.ok(pv.length > 1);
+  });
+
+  test('Expert takes a whole chain over a single jump', () => {
+    const board = boardWith([[1, 2, 'WP'], [2, 3, 'BP'], [4, 5, 'BP'], [2, 1, 'BP'], [7, 0, 'BP']]);
+    const { move, pv } = searchBestMove(board, 'expert', { budgetMs: Infinity, random: () => 0.5 });
+
+    assert.deepEqual(move?.captures, [getIndex(2, 3), getIndex(4, 5)]);
+    // The reply in the principal variation is Black's, so the chain was one move in the tree
+    if (pv.length > 1) assert.equal(board[pv[1].from], 'BP');
+  });
+
+  test('an exhausted budget still finishes the first depth', () => {
+    let clock = 0;
+    const { move, depth, pv } = searchBestMove(initialPosition().board, 'expert', { budgetMs: 0, now: () => clock++ });
+
+    assert.equal(depth, 1);
+    assert.notEqual(move, null);
+    // Depth 1 is the root move alone, with only the capture search after it
+    assert.equal(pv.length, 1);
+  });
+});
+
+describe('playing either colour', () => {
+  test('the evaluation is symmetric', () => {
+    const board = boardWith([[1, 2, 'WP'], [2, 1, 'BP'], [2, 3, 'BP'], [4, 3, 'BK'], [5, 2, 'BP'], [6, 1, 'WK']]);
+    assert.equal(evaluateBoard(initializeBoard()), 0);
+    assert.equal(evaluateBoard(mirrorBoard(board)), -evaluateBoard(board));
+  });
+
+  test("searching for Black on the mirrored board finds White's move", () => {
+    const board = boardWith([[1, 2, 'WP'], [2, 3, 'BP'], [4, 5, 'BP'], [2, 1, 'BP'], [7, 0, 'BP']]);
+    const options = { budgetMs: Infinity, random: () => 0.5 };
+    const white = searchBestMove(board, 'expert', options);
+    const black = searchBestMove(mirrorBoard(board), 'expert', { ...options, side: 'B' });
+
+    assert.deepEqual(mirrorMove(black.move!), white.move);
+    assert.equal(black.score, white.score);
+  });
+});
+
+describe('randomMove', () => {
+  test('still has to capture', () => {
+    const board = boardWith([[5, 2, 'BP'], [4, 3, 'WP'], [6, 7, 'BP']]);
+    for (const roll of [0, 0.5, 0.999]) {
+      assert.deepEqual(randomMove({ board, turn: 'B' }, () => roll)?.captures, [getIndex(4, 3)]);
+    }
+  });
+
+  test('has nothing to play once the side to move is blocked', () => {
+    assert.equal(randomMove({ board: boardWith([[7, 0, 'BP']]), turn: 'W' }), null);
+  });
+});
+
+describe('quiescence', () => {
+  test('plays out a pending capture before evaluating', () => {
+    const board = boardWith([[5, 2, 'BP'], [4, 3, 'WP'], [0, 7, 'WP']]);
+    const [capture] = legalMoves({ board, turn: 'B' });
+    const after = applyMove({ board, turn: 'B' }, capture).board;
+
+    assert.equal(quiescence(board, -Infinity, Infinity, false), evaluateBoard(after));
+    assert.equal(minimax(board, 0, -Infinity, Infinity, false), evaluateBoard(after));
+  });
+
+  test('a quiet position is just the static evaluation', () => {
+    const board = initialPosition().board;
+    assert.equal(quiescence(board, -Infinity, Infinity, true), evaluateBoard(board));
+  });
+});
+
+describe('transposition table', () => {
+  test('the hash covers the pieces and the side to move', () => {
+    const board = initialPosition().board;
+    const moved = applyMove({ board, turn: 'B' }, legalMoves({ board, turn: 'B' })[0]).board;
+
+    assert.equal(hashPosition(board, 'B'), hashPosition([...board], 'B'));
+    assert.notEqual(hashPosition(board, 'B'), hashPosition(board, 'W'));
+    assert.notEqual(hashPosition(board, 'W'), hashPosition(moved, 'W'));
+  });
+
+  test('gives the same score with fewer nodes', () => {
+    const board = initialPosition().board;
+    const search = (table: TranspositionTable | null) => {
+      const context: SearchContext = { nodes: 0, deadline: Infinity, now: Date.now, table };
+      return { score: minimax(board, 5, -Infinity, Infinity, true, context), nodes: context.nodes };
+    };
+
+    const without = search(null);
+    const withTable = search(new TranspositionTable());
+    assert.equal(withTable.score, without.score);
+    assert.ok(withTable.nodes < without.nodes);
+  });
+
+  test('stays within its capacity', () => {
+    const table = new TranspositionTable(2);
+    for (let key = 0; key < 5; key++) table.set(key, { depth: 1, score: 0, bound: 'exact', bestMove: null });
+
+    assert.equal(table.size, 2);
+    assert.equal(table.get(0), undefined);
+    assert.notEqual(table.get(4), undefined);
+  });
+});
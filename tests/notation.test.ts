@@ -0,0 +1,121 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { type Position, applyMove, getIndex, initialPosition, legalMoves } from '../lib/makhos';
+import {
+  NotationError,
+  cellIndex,
+  cellName,
+  formatPdn,
+  formatTicTacToe,
+  parseFen,
+  parsePdn,
+  parsePositionString,
+  parseSetup,
+  parseTicTacToe,
+  squareIndex,
+  squareNumber,
+  toFen,
+  toPositionString
+} from '../lib/notation';
+
+describe('tic-tac-toe records', () => {
+  test('cells read as coordinates from the bottom left or as numbers in reading order', () => {
+    assert.equal(cellName(0, 3), 'a3');
+    assert.equal(cellName(8, 3), 'c1');
+    assert.equal(cellIndex('b2', 3), 4);
+    assert.equal(cellIndex('5', 3), 4);
+    assert.equal(cellIndex('d1', 3), -1);
+    assert.equal(cellIndex('e1', 5), 24);
+  });
+
+  test('a game survives export and import with its headers', () => {
+    const game = { boardSize: '3x3' as const, starter: 'O' as const, moves: [4, 0, 1, 2, 7] };
+    const text = formatTicTacToe(game, { X: 'Player', O: 'Barron AI', Difficulty: 'Hard' });
+    assert.match(text, /\[Result "0-1"\]/);
+    assert.match(text, /1\. b2 a3 2\. b3 c3 3\. b1 0-1/);
+
+    const { game: imported, headers, positions } = parseTicTacToe(text);
+    assert.deepEqual(imported, game);
+    assert.equal(headers.Difficulty, 'Hard');
+    assert.equal(positions.length, 6);
+  });
+
+  test('a move onto a taken cell is rejected with its move number', () => {
+    assert.throws(
+      () => parseTicTacToe('1. 5 1 2. 9 5'),
+      (error: unknown) => error instanceof NotationError && error.moveNumber === 2 && /already taken/.test(error.message)
+    );
+  });
+});
+
+describe('Makhos PDN', () => {
+  test('squares 1-32 cover every dark square, Black starting on the low numbers', () => {
+    const numbers = new Set<number>();
+    for (let square = 1; square <= 32; square++) {
+      const index = squareIndex(square);
+      assert.equal(squareNumber(index), square);
+      numbers.add(index);
+    }
+    assert.equal(numbers.size, 32);
+
+    const { board } = initialPosition('B', 'english');
+    const black = board.flatMap((piece, index) => (piece === 'BP' ? [squareNumber(index)] : []));
+    assert.deepEqual(black.sort((a, b) => a - b), [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+  });
+
+  test('FEN keeps the side to move, the men and the kings', () => {
+    const position: Position = { ...initialPosition('W'), variant: 'thai' };
+    position.board[getIndex(4, 3)] = 'BK';
+    assert.deepEqual(parseFen(toFen(position), 'thai'), position);
+  });
+
+  test('a game survives export and import through the rules engine', () => {
+    let position = initialPosition('W', 'russian');
+    const start = position;
+    const moves = [];
+    for (let ply = 0; ply < 12 && legalMoves(position).length > 0; ply++) {
+      const move = legalMoves(position)[ply % legalMoves(position).length];
+      moves.push(move);
+      position = applyMove(position, move);
+    }
+
+    const text = formatPdn({ start, moves }, { Black: 'Player', White: 'Barron AI' });
+    assert.match(text, /\[GameType "25"\]/);
+    assert.match(text, /\[FEN "W:/);
+
+    const imported = parsePdn(text);
+    assert.deepEqual(imported.game.moves, moves);
+    assert.deepEqual(imported.positions[imported.positions.length - 1], position);
+  });
+
+  test('a step that skips a forced capture is rejected with its move number', () => {
+    // Black steps 11-15, White walks into the capture with 22-18, then Black ignores it
+    assert.throws(
+      () => parsePdn('[GameType "21"]\n1. 11-15 22-18 2. 10-14'),
+      (error: unknown) => error instanceof NotationError && error.moveNumber === 2 && /forced capture/.test(error.message)
+    );
+  });
+});
+
+describe('Makhos position strings', () => {
+  test('the Thai opening reads row by row from White\'s side', () => {
+    const opening = initialPosition('B', 'thai');
+    const text = toPositionString(opening);
+    assert.equal(text, '1w1w1w1w/w1w1w1w1/8/8/8/8/1b1b1b1b/b1b1b1b1 b');
+    assert.deepEqual(parsePositionString(text, 'thai'), opening);
+  });
+
+  test('either string format sets up the same endgame', () => {
+    const endgame = parseSetup('8/8/3W4/8/8/2b5/8/8 w');
+    assert.deepEqual(parseSetup(toFen(endgame)), endgame);
+  });
+
+  test('illegal setups are rejected', () => {
+    const rejects = (text: string, reason: RegExp) =>
+      assert.throws(() => parseSetup(text), (error: unknown) => error instanceof NotationError && reason.test(error.message));
+    rejects('w7/8/8/8/8/8/8/1b6 b', /light square/);
+    rejects('8/8/8/8/8/8/8/b1w5 w', /promotion row/);
+    rejects('8/8/8/8/8/8/1b6/8 b', /White has no pieces/);
+    rejects('8/8/8 b', /not a position string/);
+  });
+});
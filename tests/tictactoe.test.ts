@@ -0,0 +1,265 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  type Agent,
+  type Board,
+  type Side,
+  type Strategy,
+  AGENTS,
+  BOARD_SIZES,
+  WINNING_COMBINATIONS,
+  checkWinner,
+  createBoard,
+  getAvailableMoves,
+  getBestMove,
+  getDifficultyMove,
+  getHeuristicMove,
+  getLineSearchMove,
+  getMinimaxMove,
+  getRandomMove,
+  isBoardFull,
+  opponentOf,
+  winningLines
+} from '../lib/tictactoe';
+import {
+  type MatchRecord,
+  dropRedo,
+  extendMatch,
+  recordPly,
+  redoTarget,
+  startHistory,
+  startMatch,
+  undoTarget
+} from '../lib/match';
+
+interface TreeWalk {
+  lines: number;
+  aiWins: number;
+  draws: number;
+  losingLines: string[];
+}
+
+// Walk every reachable game where the human tries each legal move and Barron AI answers with getBestMove
+function walkGameTree(strategy: Strategy, aiStarts: boolean, ai: Side = 'O'): TreeWalk {
+  const human = opponentOf(ai);
+  const walk: TreeWalk = { lines: 0, aiWins: 0, draws: 0, losingLines: [] };
+
+  const visit = (board: Board, aiToMove: boolean, moves: string[]) => {
+    const winner = checkWinner(board);
+    if (winner || isBoardFull(board)) {
+      walk.lines++;
+      if (winner === ai) walk.aiWins++;
+      else if (winner === human) walk.losingLines.push(moves.join(' '));
+      else walk.draws++;
+      return;
+    }
+
+    if (aiToMove) {
+      const { move } = getBestMove(board, ai, strategy);
+      assert.equal(board[move], null, `AI played occupied cell ${move} after "${moves.join(' ')}"`);
+      const next = [...board];
+      next[move] = ai;
+      visit(next, false, [...moves, `${ai}${move}`]);
+      return;
+    }
+
+    for (const move of getAvailableMoves(board)) {
+      const next = [...board];
+      next[move] = human;
+      visit(next, true, [...moves, `${human}${move}`]);
+    }
+  };
+
+  visit(createBoard(), aiStarts, []);
+  return walk;
+}
+
+for (const strategy of ['search', 'heuristic'] as Strategy[]) {
+  describe(`Barron AI (${strategy}) never loses`, () => {
+    for (const ai of ['O', 'X'] as Side[]) {
+      for (const aiStarts of [true, false]) {
+        test(`${aiStarts ? 'AI moves first' : 'player moves first'}, AI plays ${ai}`, () => {
+          const walk = walkGameTree(strategy, aiStarts, ai);
+
+          assert.ok(walk.lines > 0);
+          assert.deepEqual(walk.losingLines, [], `Losing lines:\n${walk.losingLines.join('\n')}`);
+        });
+      }
+    }
+  });
+}
+
+describe('getSearchMove', () => {
+  test('ranks every legal move, best first', () => {
+    const board: Board = ['X', null, null, null, 'O', null, null, null, 'X'];
+    const { move, analysis } = getBestMove(board, 'O');
+
+    assert.equal(analysis.length, 6);
+    assert.equal(analysis[0].position, move);
+    assert.ok(analysis.every((entry, i) => i === 0 || analysis[i - 1].score >= entry.score));
+    // Opposite corners for X - only a side square holds the draw
+    assert.ok([1, 3, 5, 7].includes(move));
+  });
+
+  test('takes an immediate win over a block', () => {
+    const board: Board = ['O', 'O', null, 'X', 'X', null, null, null, null];
+    const { move, analysis } = getBestMove(board, 'O');
+
+    assert.equal(move, 2);
+    assert.ok(analysis[0].winningMove);
+  });
+});
+
+describe('getDifficultyMove', () => {
+  const neverBlunder = () => 0.999;
+
+  test('Barron plays the search move and never blunders', () => {
+    const board: Board = ['X', null, null, null, 'O', null, null, null, 'X'];
+    assert.deepEqual(getDifficultyMove(board, 'O', 'barron', () => 0), getBestMove(board, 'O'));
+  });
+
+  test('lower levels blunder into a random legal move', () => {
+    const board: Board = ['X', 'X', null, null, 'O', null, null, null, null];
+    const { move, analysis } = getDifficultyMove(board, 'O', 'beginner', () => 0);
+
+    assert.equal(board[move], null);
+    assert.match(analysis[0].reasoning, /^BLUNDER/);
+  });
+
+  test('Beginner and Casual never run the fork steps of the cascade', () => {
+    const board: Board = ['X', null, null, null, 'O', null, null, null, 'X'];
+    assert.equal(getHeuristicMove(board, 'O').analysis[0].reasoning, 'STEP 4: PREVENT OPPOSITE CORNER FORK');
+
+    for (const level of ['beginner', 'casual'] as const) {
+      const { analysis } = getDifficultyMove(board, 'O', level, neverBlunder);
+      assert.doesNotMatch(analysis[0].reasoning, /^STEP [34]/);
+    }
+  });
+});
+
+describe('m,n,k boards', () => {
+  // Board of the given size with the given stones, keyed by cell index
+  const boardOf = (size: '4x4' | '5x5', stones: Record<number, Side>): Board => {
+    const board = createBoard(BOARD_SIZES[size]);
+    for (const [cell, side] of Object.entries(stones)) board[Number(cell)] = side;
+    return board;
+  };
+
+  test('winning lines are generated for every geometry', () => {
+    assert.equal(WINNING_COMBINATIONS.length, 8);
+    assert.equal(winningLines(BOARD_SIZES['4x4']).length, 10);
+    // 5×5 with four in a row: two runs per row, column and long diagonal, one per short diagonal
+    assert.equal(winningLines(BOARD_SIZES['5x5']).length, 28);
+    assert.ok(winningLines(BOARD_SIZES['5x5']).every(line => line.length === 4));
+  });
+
+  test('four in a row wins on 5×5, three does not', () => {
+    assert.equal(checkWinner(boardOf('5x5', { 6: 'X', 12: 'X', 18: 'X' })), null);
+    assert.equal(checkWinner(boardOf('5x5', { 6: 'X', 12: 'X', 18: 'X', 24: 'X' })), 'X');
+    assert.equal(checkWinner(boardOf('5x5', { 4: 'O', 8: 'O', 12: 'O', 16: 'O' })), 'O');
+  });
+
+  test('the line search takes a win and blocks one', () => {
+    const win = getLineSearchMove(boardOf('5x5', { 0: 'O', 1: 'O', 2: 'O', 10: 'X', 11: 'X', 12: 'X' }), 'O', 3);
+    assert.equal(win.move, 3);
+    assert.ok(win.analysis[0].winningMove);
+
+    const block = getLineSearchMove(boardOf('4x4', { 0: 'X', 5: 'X', 10: 'X', 3: 'O' }), 'O', 3);
+    assert.equal(block.move, 15);
+    assert.ok(block.analysis[0].blockingMove);
+  });
+
+  test('difficulty levels play the line search off the 3×3 board', () => {
+    const board = boardOf('4x4', { 5: 'X' });
+    const { move, analysis } = getDifficultyMove(board, 'O', 'barron', () => 0);
+
+    assert.equal(board[move], null);
+    assert.equal(analysis.length, 15);
+    assert.match(analysis[0].reasoning, /^LINE SEARCH/);
+  });
+});
+
+describe('spectator agents', () => {
+  // X opens; every ply is recorded the way the spectator mode records it
+  function playMatch(x: Agent, o: Agent, random: () => number = Math.random): MatchRecord<Board, number> {
+    let match = startMatch<Board, number>(createBoard());
+    let side: Side = 'X';
+    let board = match.positions[0];
+    while (!checkWinner(board) && !isBoardFull(board)) {
+      const { move } = AGENTS[side === 'X' ? x : o].play(board, side, random);
+      board = [...board];
+      board[move] = side;
+      match = extendMatch(match, move, board);
+      side = opponentOf(side);
+    }
+    return match;
+  }
+
+  test('pure minimax takes a win and blocks one', () => {
+    assert.equal(getMinimaxMove(['O', 'O', null, 'X', 'X', null, null, null, null], 'O').move, 2);
+    assert.equal(getMinimaxMove(['X', 'X', null, null, 'O', null, null, null, null], 'O').move, 2);
+  });
+
+  test('random only plays empty cells', () => {
+    const board: Board = ['X', 'O', 'X', null, 'O', null, 'O', 'X', null];
+    for (const roll of [0, 0.5, 0.999]) assert.equal(board[getRandomMove(board, () => roll).move], null);
+  });
+
+  test('the match record keeps every position', () => {
+    const match = playMatch('minimax', 'minimax');
+    assert.equal(match.positions.length, match.moves.length + 1);
+    assert.equal(match.moves.length, 9);
+    assert.equal(checkWinner(match.positions[9]), null);
+    match.moves.forEach((move, ply) => {
+      assert.equal(match.positions[ply][move], null);
+      assert.equal(match.positions[ply + 1][move], ply % 2 === 0 ? 'X' : 'O');
+    });
+  });
+
+  test('Barron AI never loses a match to the other agents', () => {
+    for (const other of ['heuristic', 'minimax', 'random'] as Agent[]) {
+      for (let seed = 0; seed < 5; seed++) {
+        const random = () => (seed + 0.5) / 5;
+        const asX = playMatch('barron', other, random).positions.at(-1)!;
+        const asO = playMatch(other, 'barron', random).positions.at(-1)!;
+        assert.notEqual(checkWinner(asX), 'O', `lost as X to ${other}`);
+        assert.notEqual(checkWinner(asO), 'X', `lost as O to ${other}`);
+      }
+    }
+  });
+});
+
+describe('take-backs', () => {
+  // X (the human) opens in the centre, O answers in a corner, X plays an edge
+  const played = () => {
+    let history = startHistory<Board, number>(createBoard());
+    for (const [move, side] of [[4, 'X'], [0, 'O'], [1, 'X']] as const) {
+      const next = [...history.positions[history.ply]];
+      next[move] = side;
+      history = recordPly(history, move, next);
+    }
+    return history;
+  };
+  const humanMoves = (history: ReturnType<typeof played>) => (ply: number) =>
+    history.positions[ply + 1][history.moves[ply]] === 'X';
+
+  test('undo takes back the human move together with the reply to it', () => {
+    const history = { ...played(), ply: 2 };
+    assert.equal(undoTarget(history, humanMoves(history)), 0);
+    assert.equal(undoTarget({ ...history, ply: 0 }, humanMoves(history)), null);
+  });
+
+  test('redo stops at the next human move, then at the end of the game', () => {
+    const history = { ...played(), ply: 0 };
+    assert.equal(redoTarget(history, humanMoves(history)), 2);
+    assert.equal(redoTarget({ ...history, ply: 2 }, humanMoves(history)), 3);
+    assert.equal(redoTarget({ ...history, ply: 3 }, humanMoves(history)), null);
+  });
+
+  test('a new move after an undo replaces the plies that could be redone', () => {
+    const history = recordPly({ ...played(), ply: 0 }, 8, [null, null, null, null, null, null, null, null, 'X']);
+    assert.deepEqual(history.moves, [8]);
+    assert.equal(history.positions.length, 2);
+    assert.deepEqual(dropRedo({ ...played(), ply: 1 }).moves, [4]);
+  });
+});
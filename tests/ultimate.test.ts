@@ -0,0 +1,79 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  type UltimateMove,
+  type UltimateState,
+  createUltimate,
+  getUltimateMove,
+  isClosed,
+  isUltimateOver,
+  legalUltimateMoves,
+  playUltimate,
+  ultimateWinner
+} from '../lib/ultimate';
+
+// Play [board, cell] pairs from the start, alternating X and O
+const playAll = (moves: [number, number][], state: UltimateState = createUltimate()): UltimateState =>
+  moves.reduce((current, [board, cell]) => playUltimate(current, { board, cell }), state);
+
+const neverBlunder = () => 0.999;
+
+describe('ultimate rules', () => {
+  test('the first move may go anywhere, the reply goes to the board picked by its cell', () => {
+    assert.equal(legalUltimateMoves(createUltimate()).length, 81);
+
+    const state = playAll([[4, 2]]);
+    assert.equal(state.active, 2);
+    assert.equal(state.turn, 'O');
+    assert.ok(legalUltimateMoves(state).every(move => move.board === 2));
+  });
+
+  test('winning a small board claims its square of the meta-board', () => {
+    // X takes the top row of board 0 while O answers inside boards 1, 2 and 0
+    const state = playAll([[0, 1], [1, 0], [0, 2], [2, 0], [0, 0]]);
+    assert.equal(state.meta[0], 'X');
+    assert.ok(isClosed(state, 0));
+  });
+
+  test('being sent to a closed board frees the choice of board', () => {
+    const state = playAll([[0, 1], [1, 0], [0, 2], [2, 0], [0, 0]]);
+    // X's last cell was 0, which points at the board X just won
+    assert.equal(state.active, null);
+    assert.ok(legalUltimateMoves(state).every(move => move.board !== 0));
+  });
+
+  test('three claimed boards in a row win the game', () => {
+    const state: UltimateState = { ...createUltimate(), meta: ['X', 'X', 'X', null, null, null, null, null, null] };
+    assert.equal(ultimateWinner(state), 'X');
+    assert.ok(isUltimateOver(state));
+    assert.deepEqual(legalUltimateMoves(state), []);
+  });
+});
+
+describe('getUltimateMove', () => {
+  // O owns boards 0 and 1 and is sent to board 2, where two in a row wait for the third
+  const nearWin = (): UltimateState => {
+    const state = createUltimate('O');
+    state.meta = ['O', 'O', null, null, null, null, null, null, null];
+    state.boards[0] = ['O', 'O', 'O', null, null, null, null, null, null];
+    state.boards[1] = ['O', 'O', 'O', null, null, null, null, null, null];
+    state.boards[2] = ['O', 'O', null, 'X', 'X', null, null, null, null];
+    state.active = 2;
+    return state;
+  };
+
+  test('completes the meta-board line when it can', () => {
+    for (const level of ['hard', 'barron'] as const) {
+      const { move, reasoning } = getUltimateMove(nearWin(), level, neverBlunder);
+      assert.deepEqual(move, { board: 2, cell: 2 } satisfies UltimateMove);
+      assert.match(reasoning, /FORCED WIN/);
+    }
+  });
+
+  test('blunders only into legal moves', () => {
+    const state = nearWin();
+    const { move, reasoning } = getUltimateMove(state, 'beginner', () => 0);
+    assert.match(reasoning, /^BLUNDER/);
+    assert.ok(legalUltimateMoves(state).some(legal => legal.board === move?.board && legal.cell === move?.cell));
+  });
+});